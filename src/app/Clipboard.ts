@@ -0,0 +1,38 @@
+export class Clipboard
+{
+  constructor()
+  {
+    // empty
+  }
+
+  // copy text to the system clipboard; returns false if the browser refused the copy
+  public static copy(text: string): boolean
+  {
+    const area: HTMLTextAreaElement = document.createElement('textarea');
+
+    // keep the (temporary) element out of view and out of the layout
+    area.value          = text;
+    area.style.position = 'fixed';
+    area.style.top      = '0';
+    area.style.left     = '0';
+    area.style.opacity  = '0';
+
+    document.body.appendChild(area);
+    area.select();
+
+    let copied: boolean;
+
+    try
+    {
+      copied = document.execCommand('copy');
+    }
+    catch (err)
+    {
+      copied = false;
+    }
+
+    document.body.removeChild(area);
+
+    return copied;
+  }
+}
@@ -0,0 +1,24 @@
+export class FileExport
+{
+  constructor()
+  {
+    // empty
+  }
+
+  // offer text content to the user as a file download
+  public static download(content: string, fileName: string, mimeType: string): void
+  {
+    const blob: Blob           = new Blob([content], {type: mimeType});
+    const url: string          = URL.createObjectURL(blob);
+    const a: HTMLAnchorElement = document.createElement('a');
+
+    a.href     = url;
+    a.download = fileName;
+
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+
+    URL.revokeObjectURL(url);
+  }
+}
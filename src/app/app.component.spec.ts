@@ -1,5 +1,20 @@
 import { TestBed, async } from '@angular/core/testing';
 import { AppComponent } from './app.component';
+
+import { Action, ActionReducer, combineReducers } from '@ngrx/store';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+import 'rxjs/add/operator/map';
+import 'rxjs/add/operator/distinctUntilChanged';
+
+import * as CalcActions from './state/actions/CalcActions';
+
+import { CalcState } from './state/definitions/CalcState';
+import { QRecord   } from './state/definitions/QRecord';
+import { Q         } from './state/definitions/Q';
+import { QRecords  } from './libs/QRecords';
+
+import { quaternionCalcReducers, quaternionMetaReducers } from './state/definitions/CalcState';
+
 describe('AppComponent', () => {
   beforeEach(async(() => {
     TestBed.configureTestingModule({
@@ -25,3 +40,73 @@ describe('AppComponent', () => {
     expect(compiled.querySelector('h1').textContent).toContain('Welcome to app!');
   }));
 });
+
+describe('AppComponent inputs', () => {
+  let reducer: ActionReducer<CalcState>;
+  let state: CalcState;
+  let states: BehaviorSubject<CalcState>;
+  let store: any;
+  let app: AppComponent;
+
+  beforeEach(() => {
+    reducer = quaternionMetaReducers
+      .reduceRight( (r: ActionReducer<CalcState>, meta: any) => meta(r), combineReducers(<any> quaternionCalcReducers) );
+
+    state  = reducer(undefined, {type: '@ngrx/store/init'});
+    states = new BehaviorSubject<CalcState>(state);
+
+    // actions dispatched while a state is delivered are queued, as in the store
+    const queue: Array<Action> = [];
+    let reducing               = false;
+
+    store = {
+      select: (key: any) => states
+        .map( (s: CalcState) => typeof key === 'string' ? s[key] : key(s) )
+        .distinctUntilChanged(),
+
+      dispatch: (action: Action) =>
+      {
+        queue.push(action);
+
+        if (!reducing)
+        {
+          reducing = true;
+          while (queue.length > 0)
+          {
+            state = reducer(state, queue.shift());
+            states.next(state);
+          }
+          reducing = false;
+        }
+      }
+    };
+
+    app = new AppComponent(<any> {}, store);
+  });
+
+  it('should apply a scalar edited with no operation to the next scalar operation', () => {
+    app.onScalarChanged(2);
+    expect(state.inputs.scalar).toBe(2);
+    expect(state.inputs.op).toBe(CalcActions.Q_NONE);
+
+    app.onScale('q1');
+    expect(state.inputs.op).toBe(CalcActions.Q_SCALE);
+
+    const q1: QRecord = state.inputs.q1;
+    expect([state.inputs.result.w, state.inputs.result.i, state.inputs.result.j, state.inputs.result.k])
+      .toEqual([2 * q1.w, 2 * q1.i, 2 * q1.j, 2 * q1.k]);
+  });
+
+  it('should apply a register recalled with no operation to the next operation', () => {
+    const m: QRecord = QRecords.create(0, 1, 2, 3);
+
+    app.onQuaternionChanged( new Q(0, 0, 1, 0, 'q2') );
+    store.dispatch( new CalcActions.ToMemory({register: '', id: 'Q_2', memory: m}) );
+    store.dispatch( new CalcActions.FromMemory({register: 'M1', id: 'Q_1'}) );
+    expect(state.inputs.op).toBe(CalcActions.Q_NONE);
+    expect([state.inputs.q1.w, state.inputs.q1.i, state.inputs.q1.j, state.inputs.q1.k]).toEqual([0, 1, 2, 3]);
+
+    app.onAdd();
+    expect([state.inputs.result.w, state.inputs.result.i, state.inputs.result.j, state.inputs.result.k]).toEqual([0, 1, 3, 3]);
+  });
+});
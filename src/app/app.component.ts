@@ -27,23 +27,41 @@ import { Component
        , OnInit
        , OnDestroy
        , ViewChild
+       , HostListener
 } from '@angular/core';
 
 import { Store } from "@ngrx/store";
 
-import { ServiceLayer } from "./services/ServiceLayer";
+import { AuditTrail   } from "./services/AuditTrail";
 
 import { QInputs } from "./state/definitions/QInputs";
 import { Q       } from "./state/definitions/Q";
-
-import { QMemory   } from "./state/definitions/QMemory";
-import { CalcState } from "./state/definitions/CalcState";
+import { QRecord } from "./state/definitions/QRecord";
+import { QDiagnostics } from "./state/definitions/QDiagnostics";
+
+import { QMemoryStore, QMemoryRecall, QRegisters } from "./state/definitions/QMemory";
+import { CalcState   } from "./state/definitions/CalcState";
+import { CalcHistory } from "./state/definitions/CalcHistory";
+import { TapeEntry   } from "./state/definitions/CalcTape";
+import { CalcPersistence } from "./state/definitions/CalcPersistence";
 import * as CalcActions from './state/actions/CalcActions';
+import { selectOp
+       , selectExpression
+       , selectRegisters
+       , selectRecall
+       , selectMultiplication
+} from "./state/selectors/calc.selectors";
 
 import { Observable          } from 'rxjs/Observable';
 import { Subscription        } from "rxjs/Subscription";
 import { QuaternionComponent } from "./components/quaternion/quaternion.component";
 import { ResultComponent     } from "./components/result/result.component";
+import { QInterpolation      } from "./components/interpolation/interpolation.component";
+
+import { QExpression, QExpressionError } from "./libs/QExpression";
+import { QRecords } from "./libs/QRecords";
+
+import { environment } from '../environments/environment';
 
 @Component({
   selector: 'app-root',
@@ -56,10 +74,18 @@ export class AppComponent implements OnInit, OnDestroy
 {
   // NGRX/Store
   protected _inputs: Observable<QInputs>;         // input section of State
-  protected _memory: Observable<QMemory>;         // memory section of State
-  protected _storeSub: Subscription;
+  protected _history: Observable<CalcHistory>;    // undo/redo section of State
+  protected _persistence: Observable<CalcPersistence>;  // model load/save section of State
   protected _inputSub: Subscription;
-  protected _memorySub: Subscription;
+  protected _historySub: Subscription;
+  protected _persistenceSub: Subscription;
+
+  // selected values of State, which only emit when they change
+  protected _opSub: Subscription;
+  protected _expressionSub: Subscription;
+  protected _registersSub: Subscription;
+  protected _recallSub: Subscription;
+  protected _multiplicationSub: Subscription;
 
   // view children
   @ViewChild('q1') _q1: QuaternionComponent;      // first input (display) quaternion
@@ -67,32 +93,84 @@ export class AppComponent implements OnInit, OnDestroy
   @ViewChild('result') _result: ResultComponent;  // Result (display) quaternion
 
   protected _op: string = 'none';                 // current operation
+  protected _operand: string = '';                // operand ('q1' or 'q2') of the current operation if it is unary
 
-  protected _save: boolean = false;
+  // id of the saved calculator model
+  public static readonly MODEL_ID: string = 'model';
 
-  // cache these locally as helpers in memory operations
-  protected _quat1: Q;
-  protected _quat2: Q;
+  // undo/redo availability
+  protected _canUndo: boolean = false;
+  protected _canRedo: boolean = false;
 
-  constructor(protected _service: ServiceLayer,
+  // cache these locally as helpers in memory operations
+  protected _quat1: QRecord;
+  protected _quat2: QRecord;
+  protected _scalar: number = 1;
+  protected _t: number      = 0.5;
+  protected _registers: QRegisters = {};
+  protected _multiplication: string = 'hamilton';
+
+  // expression line
+  public expression: string      = '';
+  public expressionError: string = '';
+
+  // status of loading and saving the calculator model
+  public loading: boolean   = false;
+  public saving: boolean    = false;
+  public modelError: string = '';
+
+  // the debug drawer is available unless debugging is disabled (production)
+  public debugEnabled: boolean = environment.debugDepth > 0;
+  public debugOpen: boolean    = false;
+
+  constructor(protected _audit: AuditTrail,
               protected _store: Store<CalcState>)
   {
-    this._inputs = _store.select('inputs');
-    this._memory = _store.select('memory');
+    this._inputs  = _store.select('inputs');
+    this._history = _store.select('history');
+
+    this._inputSub   = this._inputs.subscribe( (input: QInputs ) => this.__onInputs(input)  );
+    this._historySub = this._history.subscribe( (history: CalcHistory) => this.__onHistory(history) );
+
+    this._opSub         = _store.select(selectOp).subscribe( (op: string) => this.__onOp(op) );
+    this._expressionSub = _store.select(selectExpression).subscribe( (expression: string) => this.expression = expression );
+    this._registersSub  = _store.select(selectRegisters).subscribe( (registers: QRegisters) => this._registers = registers );
+    this._recallSub     = _store.select(selectRecall).subscribe( (recall: QMemoryStore) => this.__onRecall(recall) );
 
-    this._storeSub  = this._store.subscribe( (state: CalcState) => this.__onStore(state) );
-    this._inputSub  = this._inputs.subscribe( (input: QInputs ) => this.__onInputs(input)  );
-    this._memorySub = this._memory.subscribe( (memory: QMemory) => this.__onMemory(memory) );
+    this._multiplicationSub = _store.select(selectMultiplication).subscribe( (m: string) => this.__onMultiplication(m) );
+
+    this._persistence    = _store.select('persistence');
+    this._persistenceSub = this._persistence.subscribe( (persistence: CalcPersistence) => this.__onPersistence(persistence) );
   }
 
   /**
    * Access the current operation
    *
-   * @returns {string} Indication of add/subtract/multiply/divide
+   * @returns {string} Indication of add/subtract/multiply/divide or a unary operation and its operand, i.e. conj(q1)
    */
   public get operation(): string
   {
-    return this._op;
+    return this._operand != '' ? this._op + '(' + this._operand + ')' : this._op;
+  }
+
+  /**
+   * Is there a change to undo?
+   *
+   * @returns {boolean}
+   */
+  public get canUndo(): boolean
+  {
+    return this._canUndo;
+  }
+
+  /**
+   * Is there an undone change to redo?
+   *
+   * @returns {boolean}
+   */
+  public get canRedo(): boolean
+  {
+    return this._canRedo;
   }
 
   /**
@@ -102,8 +180,8 @@ export class AppComponent implements OnInit, OnDestroy
    */
   public ngOnInit(): void
   {
-    // simulate the process of loading previous calculator state from a server
-    this._service.getData('./assets/model.json').subscribe( (data: Response) => this.__onModelLoaded(data) );
+    // load the previously saved calculator state
+    this._store.dispatch( new CalcActions.LoadModel(AppComponent.MODEL_ID) );
   }
 
   /**
@@ -113,9 +191,63 @@ export class AppComponent implements OnInit, OnDestroy
    */
   public ngOnDestroy(): void
   {
-    this._storeSub.unsubscribe();
     this._inputSub.unsubscribe();
-    this._memorySub.unsubscribe();
+    this._historySub.unsubscribe();
+    this._persistenceSub.unsubscribe();
+
+    this._opSub.unsubscribe();
+    this._expressionSub.unsubscribe();
+    this._registersSub.unsubscribe();
+    this._recallSub.unsubscribe();
+    this._multiplicationSub.unsubscribe();
+  }
+
+  /**
+   * Keyboard shortcuts for undo (Ctrl/Cmd-Z) and redo (Ctrl/Cmd-Y or Ctrl/Cmd-Shift-Z)
+   *
+   * @param {KeyboardEvent} evt
+   *
+   * @returns {nothing}
+   */
+  @HostListener('document:keydown', ['$event'])
+  public onKeyDown(evt: KeyboardEvent): void
+  {
+    if (!evt.ctrlKey && !evt.metaKey) {
+      return;
+    }
+
+    const key: string = evt.key ? evt.key.toLowerCase() : '';
+
+    if (key == 'z' && !evt.shiftKey)
+    {
+      evt.preventDefault();
+      this.onUndo();
+    }
+    else if (key == 'y' || (key == 'z' && evt.shiftKey))
+    {
+      evt.preventDefault();
+      this.onRedo();
+    }
+  }
+
+  /**
+   * User clicks on 'undo' button in the calculator
+   *
+   * @returns {nothing}
+   */
+  public onUndo(): void
+  {
+    this._store.dispatch( new CalcActions.Undo() );
+  }
+
+  /**
+   * User clicks on 'redo' button in the calculator
+   *
+   * @returns {nothing}
+   */
+  public onRedo(): void
+  {
+    this._store.dispatch( new CalcActions.Redo() );
   }
 
   /**
@@ -125,9 +257,10 @@ export class AppComponent implements OnInit, OnDestroy
    */
   public onAdd(): void
   {
-    this._op = 'add';
+    this._op      = 'add';
+    this._operand = '';
 
-    this._store.dispatch( {type: CalcActions.Q_ADD} );
+    this._store.dispatch( new CalcActions.QAdd() );
   }
 
   /**
@@ -137,9 +270,10 @@ export class AppComponent implements OnInit, OnDestroy
    */
   public onSubtract(): void
   {
-    this._op = 'sub';
+    this._op      = 'sub';
+    this._operand = '';
 
-    this._store.dispatch( {type: CalcActions.Q_SUBTRACT} );
+    this._store.dispatch( new CalcActions.QSubtract() );
   }
 
   /**
@@ -149,9 +283,10 @@ export class AppComponent implements OnInit, OnDestroy
    */
   public onMultiply(): void
   {
-    this._op = 'mul';
+    this._op      = 'mul';
+    this._operand = '';
 
-    this._store.dispatch( {type: CalcActions.Q_MULTIPLY} );
+    this._store.dispatch( new CalcActions.QMultiply(this._multiplication) );
   }
 
   /**
@@ -161,107 +296,365 @@ export class AppComponent implements OnInit, OnDestroy
    */
   public onDivide(): void
   {
-    this._op = 'div';
+    this._op      = 'div';
+    this._operand = '';
+
+    this._store.dispatch( new CalcActions.QDivide(this._multiplication) );
+  }
+
+  /**
+   * User clicks on 'conjugate' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onConjugate(id: string): void
+  {
+    this._op      = 'conj';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QConjugate({id: id}) );
+  }
+
+  /**
+   * User clicks on 'inverse' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onInverse(id: string): void
+  {
+    this._op      = 'inv';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QInverse({id: id}) );
+  }
+
+  /**
+   * User clicks on 'normalize' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onNormalize(id: string): void
+  {
+    this._op      = 'unit';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QNormalize({id: id}) );
+  }
+
+  /**
+   * User clicks on 'norm' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onNorm(id: string): void
+  {
+    this._op      = 'norm';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QNorm({id: id}) );
+  }
+
+  /**
+   * User clicks on 'add scalar' operation for one of the inputs
+   *
+   * @param {string} id Id of the quaternion operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onAddScalar(id: string): void
+  {
+    this._op      = 'adds';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QAddScalar({id: id}) );
+  }
+
+  /**
+   * User clicks on 'subtract scalar' operation for one of the inputs
+   *
+   * @param {string} id Id of the quaternion operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onSubtractScalar(id: string): void
+  {
+    this._op      = 'subs';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QSubtractScalar({id: id}) );
+  }
+
+  /**
+   * User clicks on 'scale' operation for one of the inputs
+   *
+   * @param {string} id Id of the quaternion operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onScale(id: string): void
+  {
+    this._op      = 'scale';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QScale({id: id}) );
+  }
+
+  /**
+   * User clicks on 'divide by scalar' operation for one of the inputs
+   *
+   * @param {string} id Id of the quaternion operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onDivideByScalar(id: string): void
+  {
+    this._op      = 'divs';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QDivideByScalar({id: id}) );
+  }
+
+  /**
+   * User clicks on 'scalar divide' operation for one of the inputs
+   *
+   * @param {string} id Id of the quaternion divisor, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onScalarDivide(id: string): void
+  {
+    this._op      = 'sdiv';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QScalarDivide({id: id}) );
+  }
+
+  /**
+   * User clicks on 'exponential' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onExp(id: string): void
+  {
+    this._op      = 'exp';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QExp({id: id}) );
+  }
+
+  /**
+   * User clicks on 'logarithm' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onLog(id: string): void
+  {
+    this._op      = 'log';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QLog({id: id}) );
+  }
+
+  /**
+   * User clicks on 'square root' operation for one of the inputs
+   *
+   * @param {string} id Id of the operand, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onSqrt(id: string): void
+  {
+    this._op      = 'sqrt';
+    this._operand = id;
+
+    this._store.dispatch( new CalcActions.QSqrt({id: id}) );
+  }
+
+  /**
+   * User clicks on 'power' operation, which raises one of the inputs to the power of the scalar
+   *
+   * @param {string} id Id of the base, 'q1' or 'q2'
+   *
+   * @returns {nothing}
+   */
+  public onPow(id: string): void
+  {
+    this._op      = 'pow';
+    this._operand = id;
 
-    this._store.dispatch( {type: CalcActions.Q_DIVIDE} );
+    this._store.dispatch( new CalcActions.QPow({id: id}) );
   }
 
   /**
    * One of the calculator quatertions has changed
    *
    * @param {Q} q Changed quaternion
+   *
+   * @returns {nothing} The current operation is recomputed with the changed input, or the input alone is dispatched if
+   * there is no operation, so that each change is a single action (and a single undo step)
    */
   public onQuaternionChanged(q: Q): void
   {
+    if (this._op == 'none')
+    {
+      this._store.dispatch( q.id == "q2" ? new CalcActions.ToQ2(QRecords.from(q)) : new CalcActions.ToQ1(QRecords.from(q)) );
+      return;
+    }
+
     // update the result based on the current operation - to make this more compact, change the internal _op var.
     // to match the calculator actions, then add a toLabel() method to convert the action to a convenient label to
     // display in the UI
 
-    const qi: QInputs = new QInputs();
-    qi.q1             = q.id == "q1" ? q : this._quat1;
-    qi.q2             = q.id == "q2" ? q : this._quat2;
+    const qi: QInputs = this.__cachedInputs();
+    qi.q1             = q.id == "q1" ? QRecords.from(q) : this._quat1;
+    qi.q2             = q.id == "q2" ? QRecords.from(q) : this._quat2;
 
     this.__update(qi);
   }
 
   /**
-   * User clicks on 'clear' button in calculator
+   * The calculator scalar has changed
    *
-   * @returns {nothing}
+   * @param {number} s Changed scalar
    */
-  public onClear(): void
+  public onScalarChanged(s: number): void
   {
-    this._store.dispatch( {type: CalcActions.Q_CLEAR} );
+    if (this._op == 'none')
+    {
+      this._store.dispatch( new CalcActions.ToScalar(s) );
+      return;
+    }
+
+    const qi: QInputs = this.__cachedInputs();
+    qi.scalar         = s;
+
+    this.__update(qi);
   }
 
   /**
-   * User clicks on 'save' button in the calculator
+   * The interpolation method or parameter has changed in the interpolation panel
+   *
+   * @param {QInterpolation} interp Interpolation method ('slerp' or 'nlerp') and parameter
    *
    * @returns {nothing}
    */
-  public onSave(): void
+  public onInterpolate(interp: QInterpolation): void
   {
-    this._save = true;
+    this._op      = interp.method;
+    this._operand = '';
 
-    this._store.dispatch( {type: CalcActions.STORE} );
+    const qi: QInputs = this.__cachedInputs();
+    qi.t              = interp.t;
+
+    this.__update(qi);
   }
 
   /**
-   * User clicks on one of the 'to memory' buttons to place either Q1 or Q2 into memory
-   *
-   * @param {string} id Id of the quaternion to be placed into memory
+   * User evaluates the expression line
    *
    * @returns {nothing}
    */
-  public onToMemory(id: string): void
+  public onEvaluate(): void
   {
-    // grab the appropriate quaternion from local cache
-    let q: Q = id == "Q_1" ? this._quat1 : this._quat2;
+    if (this.expression.trim() == '') {
+      return;
+    }
 
-    // dispatch to-memory with the whole nine yards of payload :)
-    this._store.dispatch( {type: CalcActions.TO_MEMORY, payload:{action: CalcActions.TO_MEMORY, id: id, memory: q}} );
+    this._op      = 'expr';
+    this._operand = '';
+
+    this.__update( this.__cachedInputs() );
   }
 
   /**
-   * User clicks on one of the 'from memory' buttons to return a quaternion from memory
+   * User selects an entry on the calculation tape
    *
-   * @param {string} id Id of the quaternion to fill from memory
+   * @param {TapeEntry} entry Tape entry whose operands and operation are restored
    *
    * @returns {nothing}
    */
-  public onFromMemory(id: string): void
+  public onRestore(entry: TapeEntry): void
   {
-    this._store.dispatch( {type: CalcActions.FROM_MEMORY} );
-  }
+    this._op      = this.__opToString(entry.op);
+    this._operand = entry.operand;
 
-  // execute whenever the external model is located
-  protected __onModelLoaded(response: Response): void
-  {
-    const data: Object = response.json();
+    if (entry.op == CalcActions.Q_EXPRESSION)
+    {
+      this.expression      = entry.expression;
+      this.expressionError = '';
+    }
 
-    const qi: QInputs = new QInputs();
+    this._store.dispatch( new CalcActions.RestoreOperands(entry, this._multiplication) );
+  }
 
-    const q1Arr: Array<number> = data['q1'];
-    const q2Arr: Array<number> = data['q2'];
-    const mem: Array<number>   = data['memory'];
+  /**
+   * User clicks on 'clear' button in calculator
+   *
+   * @returns {nothing}
+   */
+  public onClear(): void
+  {
+    this._store.dispatch( new CalcActions.QClear() );
+  }
 
-    // result can be computed from inputs, so there is no need to store it
-    qi.q1 = new Q(q1Arr[0], q1Arr[1], q1Arr[2], q1Arr[3]);
-    qi.q2 = new Q(q2Arr[0], q2Arr[1], q2Arr[3], q2Arr[4]);
-    qi.op = data['op'];
+  /**
+   * User clicks on 'save' button in the calculator
+   *
+   * @returns {nothing}
+   */
+  public onSave(): void
+  {
+    this._store.dispatch( new CalcActions.SaveModel(AppComponent.MODEL_ID) );
+  }
 
-    this._op = this.__opToString(qi.op);
+  /**
+   * User clicks on the 'audit' button in the calculator to download the audit trail of the session
+   *
+   * @returns {nothing}
+   */
+  public onExportAudit(): void
+  {
+    this._audit.download('json');
+  }
 
-    // update the store
-    this._store.dispatch( {type: CalcActions.INIT, payload: qi} );
+  /**
+   * User clicks on one of the 'to memory' buttons to place either Q1 or Q2 into a memory register
+   *
+   * @param {QMemoryRecall} evt Id of the quaternion to be placed into memory and the register name (empty for a new
+   * register)
+   *
+   * @returns {nothing}
+   */
+  public onToMemory(evt: QMemoryRecall): void
+  {
+    // grab the appropriate quaternion from local cache
+    let q: QRecord = evt.id == "Q_1" ? this._quat1 : this._quat2;
 
-    // there may not be anything placed in memory
-    if (mem.length > 0)
-    {
-      const memory: Q = new Q(mem[0], mem[1], mem[2], mem[3]);
+    this._store.dispatch( new CalcActions.ToMemory({register: evt.register, id: evt.id, memory: q}) );
+  }
 
-      this._store.dispatch({type: CalcActions.TO_MEMORY, payload: memory});
-    }
+  /**
+   * User clicks on one of the 'from memory' buttons to return a quaternion from a memory register
+   *
+   * @param {QMemoryRecall} evt Id of the quaternion to fill from memory and the register name
+   *
+   * @returns {nothing}
+   */
+  public onFromMemory(evt: QMemoryRecall): void
+  {
+    this._store.dispatch( new CalcActions.FromMemory(evt) );
   }
 
   // execute whenever the inputs section of the global store is updated
@@ -269,63 +662,199 @@ export class AppComponent implements OnInit, OnDestroy
   {
     if (data && data.q1 && data.q2)
     {
-      this._quat1 = data.q1.clone();
-      this._quat2 = data.q2.clone();
+      this._quat1  = data.q1;
+      this._quat2  = data.q2;
+      this._scalar = data.scalar;
+      this._t      = data.t;
+
+      this._operand = data.operand;
     }
   }
 
-  // execute whenever the memory section of the global store is updated
-  protected __onMemory(data: QMemory): void
+  // execute whenever the operation in the store changes, i.e. on load, undo, or clear (the operand follows the inputs)
+  protected __onOp(op: string): void
   {
-    // if the action is from-memory, we need to update the current operation
-    if (data && data.action == CalcActions.FROM_MEMORY)
+    this._op = this.__opToString(op);
+  }
+
+  // a memory register was recalled into an input, so the input or the current operation is updated
+  protected __onRecall(recall: QMemoryStore): void
+  {
+    if (recall)
     {
-      const qi: QInputs = new QInputs();
-      qi.q1             = data.id == "Q_1" ? data.memory : this._quat1;
-      qi.q2             = data.id == "Q_2" ? data.memory : this._quat2;
+      if (this._op == 'none')
+      {
+        const q: QRecord = QRecords.from(recall.memory);
+
+        this._store.dispatch( recall.id == "Q_2" ? new CalcActions.ToQ2(q) : new CalcActions.ToQ1(q) );
+        return;
+      }
+
+      const qi: QInputs = this.__cachedInputs();
+      qi.q1             = recall.id == "Q_1" ? recall.memory : this._quat1;
+      qi.q2             = recall.id == "Q_2" ? recall.memory : this._quat2;
 
       this.__update(qi);
     }
   }
 
+  // inputs from the local cache, to be modified by whatever changed
+  protected __cachedInputs(): QInputs
+  {
+    const qi: QInputs = QRecords.inputs();
+    qi.q1             = this._quat1;
+    qi.q2             = this._quat2;
+    qi.scalar         = this._scalar;
+    qi.t              = this._t;
+
+    return qi;
+  }
+
   protected __update(qi: QInputs): void
   {
     switch (this._op)
     {
       case 'add':
-        this._store.dispatch( {type: CalcActions.Q_ADD, payload: qi} );
+        this._store.dispatch( new CalcActions.QAdd(qi) );
       break;
 
       case 'sub':
-        this._store.dispatch( {type: CalcActions.Q_SUBTRACT, payload: qi} );
+        this._store.dispatch( new CalcActions.QSubtract(qi) );
       break;
 
       case 'mul':
-        this._store.dispatch( {type: CalcActions.Q_MULTIPLY, payload: qi} );
+        this._store.dispatch( new CalcActions.QMultiply(this._multiplication, qi) );
       break;
 
       case 'div':
-        this._store.dispatch( {type: CalcActions.Q_DIVIDE, payload: qi} );
+        this._store.dispatch( new CalcActions.QDivide(this._multiplication, qi) );
+      break;
+
+      case 'slerp':
+        this._store.dispatch( new CalcActions.QSlerp(qi) );
+      break;
+
+      case 'nlerp':
+        this._store.dispatch( new CalcActions.QNlerp(qi) );
+      break;
+
+      case 'conj':
+        this._store.dispatch( new CalcActions.QConjugate({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'inv':
+        this._store.dispatch( new CalcActions.QInverse({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'unit':
+        this._store.dispatch( new CalcActions.QNormalize({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'norm':
+        this._store.dispatch( new CalcActions.QNorm({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'adds':
+        this._store.dispatch( new CalcActions.QAddScalar({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'subs':
+        this._store.dispatch( new CalcActions.QSubtractScalar({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'scale':
+        this._store.dispatch( new CalcActions.QScale({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'divs':
+        this._store.dispatch( new CalcActions.QDivideByScalar({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'sdiv':
+        this._store.dispatch( new CalcActions.QScalarDivide({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'exp':
+        this._store.dispatch( new CalcActions.QExp({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'log':
+        this._store.dispatch( new CalcActions.QLog({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'sqrt':
+        this._store.dispatch( new CalcActions.QSqrt({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'pow':
+        this._store.dispatch( new CalcActions.QPow({id: this._operand, inputs: qi}) );
+      break;
+
+      case 'expr':
+        this.__evaluate(qi);
       break;
     }
   }
 
-  protected __onStore(state: CalcState)
+  // evaluate the expression line over the supplied inputs and current memory
+  protected __evaluate(qi: QInputs): void
   {
-    if (this._save)
-    {
-      // package the store to send to a service
-      let qi: QInputs = state.inputs;
-      let qm: QMemory = state.memory;
+    const diagnostics: QDiagnostics = QRecords.diagnostics();
+    let result: Q;
 
-      let store: Object = {
+    try
+    {
+      result = QExpression.evaluate(this.expression, {
         q1: qi.q1,
         q2: qi.q2,
-        op: qi.op,
-        memory: qm ? qm.memory : []
-      };
+        registers: this._registers,
+        multiplication: this._multiplication,
+        diagnostics: diagnostics
+      });
+    }
+    catch (err)
+    {
+      if (err instanceof QExpressionError)
+      {
+        this.expressionError = 'column ' + (err.position + 1) + ': ' + err.message;
+        return;
+      }
+
+      throw err;
+    }
+
+    this.expressionError = '';
+
+    this._store.dispatch( new CalcActions.QEvaluate({expression: this.expression, result: QRecords.from(result), diagnostics: diagnostics, inputs: qi}) );
+  }
+
+  // execute whenever the persistence section of the global store is updated
+  protected __onPersistence(data: CalcPersistence): void
+  {
+    if (data)
+    {
+      this.loading    = data.loading;
+      this.saving     = data.saving;
+      this.modelError = data.error;
+    }
+  }
+
+  // execute whenever the history section of the global store is updated
+  protected __onHistory(data: CalcHistory): void
+  {
+    this._canUndo = data ? data.past.length > 0 : false;
+    this._canRedo = data ? data.future.length > 0 : false;
+  }
+
+  // execute whenever the multiplication convention changes
+  protected __onMultiplication(multiplication: string): void
+  {
+    const changed: boolean = multiplication != this._multiplication;
+    this._multiplication   = multiplication;
 
-      console.log( 'ready so save calculator model:', store );
+    // the store recomputes a product or quotient in the new convention, but an expression is evaluated here
+    if (changed && this._op == 'expr') {
+      this.__update( this.__cachedInputs() );
     }
   }
 
@@ -345,6 +874,54 @@ export class AppComponent implements OnInit, OnDestroy
       case CalcActions.Q_DIVIDE:
         return 'div';
 
+      case CalcActions.Q_SLERP:
+        return 'slerp';
+
+      case CalcActions.Q_NLERP:
+        return 'nlerp';
+
+      case CalcActions.Q_CONJUGATE:
+        return 'conj';
+
+      case CalcActions.Q_INVERSE:
+        return 'inv';
+
+      case CalcActions.Q_NORMALIZE:
+        return 'unit';
+
+      case CalcActions.Q_NORM:
+        return 'norm';
+
+      case CalcActions.Q_ADD_SCALAR:
+        return 'adds';
+
+      case CalcActions.Q_SUBTRACT_SCALAR:
+        return 'subs';
+
+      case CalcActions.Q_SCALE:
+        return 'scale';
+
+      case CalcActions.Q_DIVIDE_BY_SCALAR:
+        return 'divs';
+
+      case CalcActions.Q_SCALAR_DIVIDE:
+        return 'sdiv';
+
+      case CalcActions.Q_EXP:
+        return 'exp';
+
+      case CalcActions.Q_LOG:
+        return 'log';
+
+      case CalcActions.Q_SQRT:
+        return 'sqrt';
+
+      case CalcActions.Q_POW:
+        return 'pow';
+
+      case CalcActions.Q_EXPRESSION:
+        return 'expr';
+
       default:
         return 'none';
     }
@@ -27,35 +27,77 @@ import { HttpModule              } from "@angular/http";
 import { FormsModule             } from "@angular/forms";
 import { NgModule                } from '@angular/core';
 
-import { StoreModule } from '@ngrx/store';
+import { StoreModule, META_REDUCERS } from '@ngrx/store';
+import { EffectsModule              } from '@ngrx/effects';
+import { StoreDevtoolsModule        } from '@ngrx/store-devtools';
 
-import { MatButtonModule, MatInputModule, MatFormFieldModule, MatIconModule} from '@angular/material';
+import { MatButtonModule, MatInputModule, MatFormFieldModule, MatIconModule, MatSelectModule} from '@angular/material';
 
-import {quaternionCalcReducers} from "./state/definitions/CalcState";
+import {quaternionCalcReducers, calcMetaReducers} from "./state/definitions/CalcState";
+import { ModelEffects } from "./state/effects/model.effects";
+import { SyncEffects  } from "./state/effects/sync.effects";
+import { AuditEffects } from "./state/effects/audit.effects";
+import { DebugEffects } from "./state/effects/debug.effects";
 
 import { AppComponent        } from './app.component';
 import { ServiceLayer        } from './services/ServiceLayer';
+import { LocalStorageServiceLayer } from './services/LocalStorageServiceLayer';
+import { AuditTrail          } from './services/AuditTrail';
+import { DebugSession        } from './services/DebugSession';
+import { TabChannel          } from './services/TabChannel';
 import { LoggingService      } from './services/Logging';
+import { LOG_SINKS           } from './services/Logging';
+import { ConsoleLogSink, MemoryLogSink, HttpLogSink } from './services/LogSinks';
 import { QuaternionComponent } from "./components/quaternion/quaternion.component";
 import { ResultComponent     } from "./components/result/result.component";
 import { MemoryComponent     } from "./components/memory/memory.component";
+import { ScalarComponent     } from "./components/scalar/scalar.component";
+import { InterpolationComponent } from "./components/interpolation/interpolation.component";
+import { HistoryComponent    } from "./components/history/history.component";
+import { SettingsComponent   } from "./components/settings/settings.component";
+import { DebugComponent      } from "./components/debug/debug.component";
+import { QNumberPipe         } from "./pipes/qnumber.pipe";
+
+import { environment } from '../environments/environment';
 
 const PLATFORM_IMPORTS: any[] = [BrowserModule, HttpModule, FormsModule, BrowserAnimationsModule];
 
-const MATERIAL_IMPORTS: any[] = [MatButtonModule, MatIconModule, MatInputModule, MatFormFieldModule];
+const MATERIAL_IMPORTS: any[] = [MatButtonModule, MatIconModule, MatInputModule, MatFormFieldModule, MatSelectModule];
+
+// models are saved in local storage; provide ServiceLayer itself to save models to a back end
+const APP_SERVICES: any[] = [{provide: ServiceLayer, useClass: LocalStorageServiceLayer}, LoggingService, AuditTrail,
+                             DebugSession, TabChannel];
+
+// meta-reducers are provided (rather than configured in forRoot) since the debug restorer is injected
+const STORE_SERVICES: any[] = [{provide: META_REDUCERS, useFactory: calcMetaReducers, deps: [DebugSession]}];
+
+// the store is instrumented for the Redux DevTools browser extension unless debugging is disabled, i.e. in production
+const DEVTOOLS_IMPORTS: any[] = environment.debugDepth > 0 ? [StoreDevtoolsModule.instrument({maxAge: environment.debugDepth})] : [];
 
-const APP_SERVICES: any[] = [ServiceLayer, LoggingService];
+// log records at INFO or above are written to the console and (if a log url is assigned) posted to a server; every
+// record, including the audit trail, is retained in memory
+const LOG_SERVICES: any[] = [
+  ConsoleLogSink,
+  MemoryLogSink,
+  HttpLogSink,
+  {provide: LOG_SINKS, useExisting: ConsoleLogSink, multi: true},
+  {provide: LOG_SINKS, useExisting: MemoryLogSink, multi: true},
+  {provide: LOG_SINKS, useExisting: HttpLogSink, multi: true}
+];
 
-const APP_DECLARATIONS: any[] = [AppComponent, QuaternionComponent, ResultComponent, MemoryComponent];
+const APP_DECLARATIONS: any[] = [AppComponent, QuaternionComponent, ResultComponent, MemoryComponent, ScalarComponent,
+                                 InterpolationComponent, HistoryComponent, SettingsComponent, DebugComponent, QNumberPipe];
 
 @NgModule({
   declarations: APP_DECLARATIONS,
   imports: [
     PLATFORM_IMPORTS,
     MATERIAL_IMPORTS,
-    StoreModule.forRoot(quaternionCalcReducers)
+    StoreModule.forRoot(quaternionCalcReducers),
+    EffectsModule.forRoot([ModelEffects, SyncEffects, AuditEffects, DebugEffects]),
+    DEVTOOLS_IMPORTS
   ],
-  providers: APP_SERVICES,
+  providers: [APP_SERVICES, LOG_SERVICES, STORE_SERVICES],
   bootstrap: [AppComponent]
 })
 export class AppModule { }
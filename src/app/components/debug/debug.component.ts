@@ -0,0 +1,316 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Debug drawer - lists the actions dispatched to the store in this session (newest first) and shows the state after a
+ * selected action.  The store may be returned to the state after any action, an action may be dispatched again, and the
+ * whole session may be replayed from its initial state, exported, or imported and replayed.  This works without the
+ * Redux DevTools extension.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { Component
+       , OnInit
+       , OnDestroy
+       , Output
+       , EventEmitter
+} from '@angular/core';
+
+// state/etc
+import { Store, Action } from "@ngrx/store";
+
+import { CalcState } from "../../state/definitions/CalcState";
+import * as CalcActions from '../../state/actions/CalcActions';
+
+import { DebugSession, DebugEntry, DebugSessionData } from "../../services/DebugSession";
+
+// RxJS
+import { Subscription } from "rxjs/Subscription";
+
+@Component({
+  selector: 'app-debug',
+
+  templateUrl: './debug.component.html',
+
+  styleUrls: ['./debug.component.scss']
+})
+export class DebugComponent implements OnInit, OnDestroy
+{
+  // maximum length of a displayed payload
+  protected static PAYLOAD_SIZE: number = 120;
+
+  // NGRX/Store
+  protected _storeSub: Subscription;
+
+  /**
+   * user closes the drawer
+   *
+   * @type{void}
+   */
+  @Output('close') _close: EventEmitter<void> = new EventEmitter<void>();
+
+  // recorded actions, newest first, and the index (into the session) of the entry whose state is current
+  public entries: Array<DebugEntry> = new Array<DebugEntry>();
+  public position: number           = -1;
+
+  // only actions whose type contains the filter text are listed
+  public filter: string = '';
+
+  // selected entry and the slice of its state that is displayed
+  public selected: DebugEntry = null;
+  public slices: Array<string> = [];
+  public slice: string         = 'inputs';
+
+  public importError: string = '';
+
+  constructor(protected _store: Store<CalcState>, protected _session: DebugSession)
+  {
+    // every dispatched action produces a state, and every state follows a recorded action (or a jump)
+    this._storeSub = this._store.subscribe( () => this.__refresh() );
+  }
+
+  /**
+   * Angular lifecycle handler - on init
+   *
+   * @returns {nothing}
+   */
+  public ngOnInit(): void
+  {
+    // reserved for future use
+  }
+
+  /**
+   * Angular lifecycle handler - on destroy
+   *
+   * @returns {nothing}
+   */
+  public ngOnDestroy(): void
+  {
+    this._storeSub.unsubscribe();
+  }
+
+  /**
+   * Access the listed entries
+   *
+   * @returns {Array<DebugEntry>} Entries whose action type contains the filter text (case-insensitive)
+   */
+  public get listed(): Array<DebugEntry>
+  {
+    const f: string = this.filter.trim().toLowerCase();
+
+    return f == '' ? this.entries : this.entries.filter( (e: DebugEntry) => e.action.type.toLowerCase().indexOf(f) != -1 );
+  }
+
+  /**
+   * Access the displayed slice of the selected state
+   *
+   * @returns {string} JSON of the slice (empty if no entry is selected)
+   */
+  public get state(): string
+  {
+    if (this.selected == null || this.selected.state == null) {
+      return '';
+    }
+
+    return JSON.stringify(this.selected.state[this.slice], null, 2);
+  }
+
+  /**
+   * User selects an entry
+   *
+   * @param {DebugEntry} entry Selected entry
+   *
+   * @returns {nothing}
+   */
+  public onSelect(entry: DebugEntry): void
+  {
+    this.selected = entry;
+    this.slices   = entry.state ? Object.keys(entry.state) : [];
+
+    if (this.slices.indexOf(this.slice) == -1) {
+      this.slice = this.slices.length > 0 ? this.slices[0] : '';
+    }
+  }
+
+  /**
+   * User restores the state after the selected action
+   *
+   * @returns {nothing}
+   */
+  public onJump(): void
+  {
+    if (this.selected) {
+      this._store.dispatch( new CalcActions.DebugJump(this.__indexOf(this.selected)) );
+    }
+  }
+
+  /**
+   * User dispatches the selected action again, on the current state
+   *
+   * @returns {nothing}
+   */
+  public onReplay(): void
+  {
+    if (this.selected) {
+      this.__replay([this.selected.action]);
+    }
+  }
+
+  /**
+   * User replays the session from its initial state
+   *
+   * @returns {nothing}
+   */
+  public onReplayAll(): void
+  {
+    const actions: Array<Action> = this._session.entries.map( (e: DebugEntry) => e.action );
+
+    this._store.dispatch( new CalcActions.DebugJump(-1) );
+    this.__replay(actions);
+  }
+
+  /**
+   * User clears the session
+   *
+   * @returns {nothing}
+   */
+  public onClear(): void
+  {
+    this._session.clear();
+
+    this.selected = null;
+    this.__refresh();
+  }
+
+  /**
+   * User exports the session
+   *
+   * @returns {nothing} The session is offered as a file download
+   */
+  public onExport(): void
+  {
+    this._session.download();
+  }
+
+  /**
+   * User selects a session file to import
+   *
+   * @param {any} evt Change event of the file input
+   *
+   * @returns {nothing} The imported session is replayed from its initial state; an invalid file is reported
+   */
+  public onImport(evt: any): void
+  {
+    const input: HTMLInputElement = evt.target;
+    const file: File              = input.files && input.files.length > 0 ? input.files[0] : null;
+
+    if (file == null) {
+      return;
+    }
+
+    const reader: FileReader = new FileReader();
+
+    reader.onload = () =>
+    {
+      let data: DebugSessionData;
+
+      try
+      {
+        data = DebugSession.parse(reader.result);
+      }
+      catch (err)
+      {
+        this.importError = file.name + ': ' + err.message;
+        return;
+      }
+
+      this.importError = '';
+      this.selected    = null;
+
+      this._session.load(data);
+      this._store.dispatch( new CalcActions.DebugJump(-1) );
+      this.__replay(data.actions);
+    };
+
+    reader.readAsText(file);
+
+    // allow the same file to be imported again
+    input.value = '';
+  }
+
+  /**
+   * User closes the drawer
+   *
+   * @returns {nothing} Emits 'close' event
+   */
+  public onClose(): void
+  {
+    this._close.emit();
+  }
+
+  /** @internal */
+  public payload(entry: DebugEntry): string
+  {
+    const payload: any = entry.action['payload'];
+
+    if (payload === undefined) {
+      return '';
+    }
+
+    const s: string = JSON.stringify(payload);
+
+    return s.length > DebugComponent.PAYLOAD_SIZE ? s.substr(0, DebugComponent.PAYLOAD_SIZE) + '...' : s;
+  }
+
+  /** @internal */
+  public isCurrent(entry: DebugEntry): boolean
+  {
+    return this.__indexOf(entry) == this.position;
+  }
+
+  /** @internal */
+  public isReplayed(entry: DebugEntry): boolean
+  {
+    return DebugSession.isReplayed(entry.action);
+  }
+
+  // dispatch actions in order, skipping those that are not replayed
+  protected __replay(actions: Array<Action>): void
+  {
+    actions.filter( (action: Action) => DebugSession.isReplayed(action) )
+           .forEach( (action: Action) => this._store.dispatch(action) );
+  }
+
+  // index of an entry in the session
+  protected __indexOf(entry: DebugEntry): number
+  {
+    return this.entries.length - 1 - this.entries.indexOf(entry);
+  }
+
+  // the session has changed
+  protected __refresh(): void
+  {
+    this.entries  = this._session.entries.reverse();
+    this.position = this._session.position;
+
+    // an entry that was discarded (by a new action after a jump) is no longer selected
+    if (this.selected && this.entries.indexOf(this.selected) == -1) {
+      this.selected = null;
+    }
+  }
+}
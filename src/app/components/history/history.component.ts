@@ -0,0 +1,251 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Calculation tape - lists each completed operation, newest first.  Selecting an entry restores its operands (and
+ * operation) into the calculator.  The tape may be cleared or exported as CSV or JSON.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { Component
+       , OnInit
+       , OnDestroy
+       , Output
+       , EventEmitter
+} from '@angular/core';
+
+// state/etc
+import { Store } from "@ngrx/store";
+
+import { QRecord   } from "../../state/definitions/QRecord";
+import { CalcState } from "../../state/definitions/CalcState";
+import { CalcTape, TapeEntry } from "../../state/definitions/CalcTape";
+import { CalcSettings, CalcDisplay } from "../../state/definitions/CalcSettings";
+import * as CalcActions from '../../state/actions/CalcActions';
+
+// RxJS
+import { Observable   } from 'rxjs/Observable';
+import { Subscription } from "rxjs/Subscription";
+
+// utils
+import { FileExport } from "../../FileExport";
+import { QCalc      } from "../../libs/QCalc";
+import { NumberFormat } from "../../libs/NumberFormat";
+
+@Component({
+  selector: 'app-history',
+
+  templateUrl: './history.component.html',
+
+  styleUrls: ['./history.component.scss']
+})
+export class HistoryComponent implements OnInit, OnDestroy
+{
+  // display of each operation; Q is replaced by the operand of a unary or scalar operation
+  protected static LABELS: Object = {
+    [CalcActions.Q_ADD]: 'q1 + q2',
+    [CalcActions.Q_SUBTRACT]: 'q1 - q2',
+    [CalcActions.Q_MULTIPLY]: 'q1 * q2',
+    [CalcActions.Q_DIVIDE]: 'q1 / q2',
+    [CalcActions.Q_SLERP]: 'slerp(q1, q2, t)',
+    [CalcActions.Q_NLERP]: 'nlerp(q1, q2, t)',
+    [CalcActions.Q_CONJUGATE]: 'conj(Q)',
+    [CalcActions.Q_INVERSE]: 'inv(Q)',
+    [CalcActions.Q_NORMALIZE]: 'unit(Q)',
+    [CalcActions.Q_NORM]: 'norm(Q)',
+    [CalcActions.Q_ADD_SCALAR]: 'Q + s',
+    [CalcActions.Q_SUBTRACT_SCALAR]: 'Q - s',
+    [CalcActions.Q_SCALE]: 's * Q',
+    [CalcActions.Q_DIVIDE_BY_SCALAR]: 'Q / s',
+    [CalcActions.Q_SCALAR_DIVIDE]: 's / Q',
+    [CalcActions.Q_EXP]: 'exp(Q)',
+    [CalcActions.Q_LOG]: 'log(Q)',
+    [CalcActions.Q_SQRT]: 'sqrt(Q)',
+    [CalcActions.Q_POW]: 'Q ^ s'
+  };
+
+  // NGRX/Store
+  protected _tape: Observable<CalcTape>;          // tape section of State
+  protected _settings: Observable<CalcSettings>;  // settings section of State
+  protected _tapeSub: Subscription;
+  protected _settingsSub: Subscription;
+
+  // component order of displayed and exported quaternions, and display of numbers
+  protected _order: string        = 'wxyz';
+  protected _display: CalcDisplay = NumberFormat.DEFAULTS;
+
+  /**
+   * user selects a tape entry to restore
+   *
+   * @type{TapeEntry}
+   */
+  @Output('restore') _restore: EventEmitter<TapeEntry> = new EventEmitter<TapeEntry>();
+
+  // tape entries, newest first
+  public entries: Array<TapeEntry> = new Array<TapeEntry>();
+
+  constructor(protected _store: Store<CalcState>)
+  {
+    this._tape    = this._store.select('tape');
+    this._tapeSub = this._tape.subscribe( (tape: CalcTape) => this.__onTape(tape) );
+
+    this._settings    = this._store.select('settings');
+    this._settingsSub = this._settings.subscribe( (settings: CalcSettings) => this.__onSettings(settings) );
+  }
+
+  /**
+   * Angular lifecycle handler - on init
+   *
+   * @returns {nothing}
+   */
+  public ngOnInit(): void
+  {
+    // reserved for future use
+  }
+
+  /**
+   * Angular lifecycle handler - on destroy
+   *
+   * @returns {nothing}
+   */
+  public ngOnDestroy(): void
+  {
+    this._tapeSub.unsubscribe();
+    this._settingsSub.unsubscribe();
+  }
+
+  /**
+   * User selects a tape entry
+   *
+   * @param {TapeEntry} entry Selected entry
+   *
+   * @returns {nothing} Emits 'restore' event
+   */
+  public onSelect(entry: TapeEntry): void
+  {
+    this._restore.emit(entry);
+  }
+
+  /**
+   * User clears the tape
+   *
+   * @returns {nothing}
+   */
+  public onClear(): void
+  {
+    this._store.dispatch( new CalcActions.ClearTape() );
+  }
+
+  /**
+   * Export the tape, oldest entry first
+   *
+   * @param {string} format 'csv' or 'json'
+   *
+   * @returns {nothing} The tape is offered as a file download
+   */
+  public onExport(format: string): void
+  {
+    const entries: Array<TapeEntry> = this.entries.slice().reverse();
+
+    if (format == 'csv')
+    {
+      const columns: Array<string> = this._order == 'xyzw' ? ['i', 'j', 'k', 'w'] : ['w', 'i', 'j', 'k'];
+      const names: (q: string) => Array<string> = (q: string) => columns.map( (c: string) => q + ' ' + c );
+
+      const header: string = ['id', 'time', 'operation'].concat( names('q1'), names('q2'), ['s', 't'], names('result') ).join(',');
+
+      const rows: Array<string> = entries.map( (e: TapeEntry) =>
+        [e.id, new Date(e.timestamp).toISOString(), HistoryComponent.__csv(this.label(e))].concat(
+          this.__toArray(e.q1), this.__toArray(e.q2), [e.scalar, e.t], this.__toArray(e.result)
+        ).join(',')
+      );
+
+      FileExport.download( [header].concat(rows).join('\n'), 'tape.csv', 'text/csv' );
+    }
+    else
+    {
+      const data: Array<Object> = entries.map( (e: TapeEntry) =>
+      {
+        return {
+          id: e.id,
+          time: new Date(e.timestamp).toISOString(),
+          op: e.op,
+          operand: e.operand,
+          expression: e.expression,
+          q1: this.__toArray(e.q1),
+          q2: this.__toArray(e.q2),
+          scalar: e.scalar,
+          t: e.t,
+          result: this.__toArray(e.result)
+        };
+      });
+
+      FileExport.download( JSON.stringify(data, null, 2), 'tape.json', 'application/json' );
+    }
+  }
+
+  /** @internal */
+  public label(entry: TapeEntry): string
+  {
+    if (entry.op == CalcActions.Q_EXPRESSION) {
+      return entry.expression;
+    }
+
+    const label: string = HistoryComponent.LABELS[entry.op] || entry.op;
+    const t: string     = entry.op == CalcActions.Q_SLERP || entry.op == CalcActions.Q_NLERP ? ', t = ' + entry.t : '';
+
+    return label.replace('Q', entry.operand || 'q1') + t;
+  }
+
+  /** @internal */
+  public format(q: QRecord): string
+  {
+    // components are separated by semicolons when the decimal separator is a comma
+    const sep: string = NumberFormat.separator(this._display) == ',' ? '; ' : ', ';
+
+    return '(' + this.__toArray(q).map( (x: number) => NumberFormat.format(x, this._display) ).join(sep) + ')';
+  }
+
+  // tape state was updated
+  protected __onTape(tape: CalcTape): void
+  {
+    this.entries = tape ? tape.entries.slice().reverse() : new Array<TapeEntry>();
+  }
+
+  // settings were updated
+  protected __onSettings(settings: CalcSettings): void
+  {
+    if (settings)
+    {
+      this._order   = settings.order;
+      this._display = settings.display;
+    }
+  }
+
+  // components of a quaternion in the order of the settings
+  protected __toArray(q: QRecord): Array<number>
+  {
+    return QCalc.toArray(q, this._order);
+  }
+
+  // quote a CSV field that contains a separator or quote
+  protected static __csv(s: string): string
+  {
+    return /[",\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Interpolation panel - select SLERP or NLERP between the two inputs, move the interpolation parameter, and sample the
+ * interpolation at a number of evenly spaced steps
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { Component
+       , OnInit
+       , OnDestroy
+       , Output
+       , EventEmitter
+} from '@angular/core';
+
+// state/etc
+import { Store } from "@ngrx/store";
+
+import { QInputs   } from "../../state/definitions/QInputs";
+import { Q         } from "../../state/definitions/Q";
+import { QRecord   } from "../../state/definitions/QRecord";
+import { CalcState } from "../../state/definitions/CalcState";
+import { CalcSettings, CalcDisplay } from "../../state/definitions/CalcSettings";
+import * as CalcActions from '../../state/actions/CalcActions';
+
+// RxJS
+import { Observable   } from 'rxjs/Observable';
+import { Subscription } from "rxjs/Subscription";
+
+// utils
+import { QRecords   } from "../../libs/QRecords";
+import { QCalc      } from "../../libs/QCalc";
+import { FileExport } from "../../FileExport";
+import { NumberFormat } from "../../libs/NumberFormat";
+
+/**
+ * Interpolation request from this panel
+ */
+export interface QInterpolation
+{
+  method: string;    // 'slerp' or 'nlerp'
+
+  t: number;         // interpolation parameter in [0,1]
+}
+
+/**
+ * A single row of the sampled interpolation table
+ */
+export interface QSample
+{
+  t: number;
+
+  q: Q;
+}
+
+@Component({
+  selector: 'app-interpolation',
+
+  templateUrl: './interpolation.component.html',
+
+  styleUrls: ['./interpolation.component.scss']
+})
+export class InterpolationComponent implements OnInit, OnDestroy
+{
+  // NGRX/Store
+  protected _inputs: Observable<QInputs>;         // input section of State
+  protected _settings: Observable<CalcSettings>;  // settings section of State
+  protected _inputSub: Subscription;
+  protected _settingsSub: Subscription;
+
+  /**
+   * interpolation method or parameter changes due to user input
+   *
+   * @type{QInterpolation}
+   */
+  @Output('interpolate') _interpolate: EventEmitter<QInterpolation> = new EventEmitter<QInterpolation>();
+
+  public method: string = 'slerp';   // interpolation method
+  public t: number      = 0.5;       // interpolation parameter
+  public steps: number  = 11;        // number of samples, including both endpoints
+
+  public samples: Array<QSample> = new Array<QSample>();
+
+  // table columns in the component order of the settings
+  public order: string          = 'wxyz';
+  public columns: Array<string> = ['w', 'i', 'j', 'k'];
+  public display: CalcDisplay   = NumberFormat.DEFAULTS;
+
+  // cache the inputs to be interpolated
+  protected _quat1: QRecord = QRecords.create(1, 0, 0, 0);
+  protected _quat2: QRecord = QRecords.create(1, 0, 0, 0);
+
+  constructor(protected _store: Store<CalcState>)
+  {
+    this._inputs   = this._store.select('inputs');
+    this._inputSub = this._inputs.subscribe( (input: QInputs) => this.__onInputs(input) );
+
+    this._settings    = this._store.select('settings');
+    this._settingsSub = this._settings.subscribe( (settings: CalcSettings) => this.__onSettings(settings) );
+  }
+
+  /**
+   * Angular lifecycle handler - on init
+   *
+   * @returns {nothing}
+   */
+  public ngOnInit(): void
+  {
+    // reserved for future use
+  }
+
+  /**
+   * Angular lifecycle handler - on destroy
+   *
+   * @returns {nothing}
+   */
+  public ngOnDestroy(): void
+  {
+    this._inputSub.unsubscribe();
+    this._settingsSub.unsubscribe();
+  }
+
+  /**
+   * User selects an interpolation method
+   *
+   * @param {string} method 'slerp' or 'nlerp'
+   *
+   * @returns {nothing} Emits 'interpolate' event
+   */
+  public onMethod(method: string): void
+  {
+    this.method = method;
+
+    this.onChanged();
+  }
+
+  /**
+   * Interpolation parameter changes (this is called continuously as the slider moves)
+   *
+   * @param {any} evt Input event from the slider
+   *
+   * @returns {nothing} Emits 'interpolate' event
+   */
+  public onSlide(evt: any): void
+  {
+    this.t = +evt.target.value;
+
+    this.onChanged();
+  }
+
+  /**
+   * Request an interpolation with the current method and parameter
+   *
+   * @returns {nothing} Emits 'interpolate' event
+   */
+  public onChanged(): void
+  {
+    this._interpolate.emit( {method: this.method, t: this.t} );
+  }
+
+  /**
+   * Sample the interpolation from the first to the second input at evenly spaced steps
+   *
+   * @returns {nothing} The sampled table is updated
+   */
+  public onSample(): void
+  {
+    const n: number = Math.max(2, Math.min(1000, Math.round(+this.steps) || 2));
+    this.steps      = n;
+
+    this.samples = new Array<QSample>();
+
+    let k: number;
+    let t: number;
+    for (k = 0; k < n; ++k)
+    {
+      t = k / (n - 1);
+
+      this.samples.push({
+        t: t,
+        q: this.method == 'nlerp' ? QCalc.nlerp(this._quat1, this._quat2, t) : QCalc.slerp(this._quat1, this._quat2, t)
+      });
+    }
+  }
+
+  /**
+   * Export the sampled table as CSV
+   *
+   * @returns {nothing} The table is offered as a file download
+   */
+  public onExport(): void
+  {
+    const rows: Array<string> = this.samples.map( (s: QSample) => [s.t].concat( QCalc.toArray(s.q, this.order) ).join(',') );
+
+    FileExport.download( [['t'].concat(this.columns).join(',')].concat(rows).join('\n'), this.method + '.csv', 'text/csv' );
+  }
+
+  // settings were updated
+  protected __onSettings(settings: CalcSettings): void
+  {
+    if (settings)
+    {
+      this.order   = settings.order;
+      this.columns = this.order == 'xyzw' ? ['i', 'j', 'k', 'w'] : ['w', 'i', 'j', 'k'];
+      this.display = settings.display;
+    }
+  }
+
+  // input state was updated
+  protected __onInputs(input: QInputs): void
+  {
+    if (input && input.q1 && input.q2)
+    {
+      this._quat1 = input.q1;
+      this._quat2 = input.q2;
+
+      if (input.action == CalcActions.INIT || input.action == CalcActions.Q_CLEAR ||
+          input.action == CalcActions.UNDO || input.action == CalcActions.REDO || input.action == CalcActions.JUMP_TO ||
+          input.action == CalcActions.RESTORE_OPERANDS || input.action == CalcActions.SYNC_INPUTS) {
+        this.t = input.t;
+      }
+
+      // keep an existing table in sync with the inputs
+      if (this.samples.length > 0) {
+        this.onSample();
+      }
+    }
+  }
+}
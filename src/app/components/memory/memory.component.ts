@@ -23,11 +23,23 @@
  */
 import { Component
        , OnInit
+       , OnDestroy
        , Input
        , Output
        , EventEmitter
 } from '@angular/core';
 
+// state/etc
+import { Store } from "@ngrx/store";
+
+import { QMemory, QMemoryRecall } from "../../state/definitions/QMemory";
+import { CalcState              } from "../../state/definitions/CalcState";
+import * as CalcActions from '../../state/actions/CalcActions';
+
+// RxJS
+import { Observable   } from 'rxjs/Observable';
+import { Subscription } from "rxjs/Subscription";
+
 @Component({
   selector: 'app-memory',
 
@@ -35,7 +47,7 @@ import { Component
 
   styleUrls: ['./memory.component.scss']
 })
-export class MemoryComponent implements OnInit
+export class MemoryComponent implements OnInit, OnDestroy
 {
   /**
    * Id for this memory bar (Q_1 or Q_2, for example)
@@ -45,23 +57,36 @@ export class MemoryComponent implements OnInit
   @Input('') id: string = '';
 
   /**
-   * Indicate a 'to-memory' operation
+   * Indicate a 'to-memory' operation into the selected register (empty register name for a new register)
    *
-   * @type {string}
+   * @type {QMemoryRecall}
    */
-  @Output('memTo'  ) _to: EventEmitter<string>;
+  @Output('memTo'  ) _to: EventEmitter<QMemoryRecall>;
 
   /**
-   * Indicate a 'from-memory' operation
+   * Indicate a 'from-memory' operation from the selected register
    *
-   * @type {string}
+   * @type {QMemoryRecall}
    */
-  @Output('memFrom') _from: EventEmitter<string>;
+  @Output('memFrom') _from: EventEmitter<QMemoryRecall>;
 
-  constructor()
+  public registers: Array<string> = new Array<string>();   // register names, in order
+  public selected: string         = '';                    // selected register (empty for a new register)
+
+  public renaming: boolean = false;                          // is the selected register being renamed?
+  public newName: string   = '';
+
+  // NGRX/Store
+  protected _memory: Observable<QMemory>;                    // memory section of State
+  protected _memorySub: Subscription;
+
+  constructor(protected _store: Store<CalcState>)
   {
-    this._to   = new EventEmitter<string>();
-    this._from = new EventEmitter<string>();
+    this._to   = new EventEmitter<QMemoryRecall>();
+    this._from = new EventEmitter<QMemoryRecall>();
+
+    this._memory    = this._store.select('memory');
+    this._memorySub = this._memory.subscribe( (memory: QMemory) => this.__onMemory(memory) );
   }
 
   /**
@@ -74,17 +99,87 @@ export class MemoryComponent implements OnInit
     // reserved for future use
   }
 
+  /**
+   * Angular lifecycle method - on destroy
+   *
+   * @returns {nothing}
+   */
+  public ngOnDestroy(): void
+  {
+    this._memorySub.unsubscribe();
+  }
+
   // handle to- and from-memory button clicks
 
   /** @internal */
   public __onMemoryAdd() :void
   {
-    this._to.emit(this.id);
+    this._to.emit( {id: this.id, register: this.selected} );
   }
 
   /** @internal */
   public __onMemoryRecall(): void
   {
-    this._from.emit(this.id);
+    if (this.selected != '') {
+      this._from.emit( {id: this.id, register: this.selected} );
+    }
+  }
+
+  // register maintenance is independent of the calculator inputs, so it is dispatched directly
+
+  /** @internal */
+  public __onRenameStart(): void
+  {
+    this.renaming = this.selected != '';
+    this.newName  = this.selected;
+  }
+
+  /** @internal */
+  public __onRenameEnd(commit: boolean): void
+  {
+    // the input blurs as it is removed after enter or escape
+    if (!this.renaming) {
+      return;
+    }
+
+    if (commit && this.newName.trim() != '' && this.newName.trim() != this.selected) {
+      this._store.dispatch( new CalcActions.RenameMemory({register: this.selected, name: this.newName}) );
+    }
+
+    this.renaming = false;
+  }
+
+  /** @internal */
+  public __onMemoryDelete(): void
+  {
+    if (this.selected != '') {
+      this._store.dispatch( new CalcActions.DeleteMemory(this.selected) );
+    }
+  }
+
+  /** @internal */
+  public __onMemoryClear(): void
+  {
+    this._store.dispatch( new CalcActions.ClearMemory() );
+  }
+
+  // memory state was updated
+  protected __onMemory(m: QMemory): void
+  {
+    if (m !== undefined && m != null)
+    {
+      this.registers = Object.keys(m.registers);
+
+      // follow a register this bar just created or one that was renamed from this bar's selection
+      if ((m.action == CalcActions.TO_MEMORY && m.id == this.id) ||
+          (m.action == CalcActions.RENAME_MEMORY && this.registers.indexOf(this.selected) == -1))
+      {
+        this.selected = m.register;
+      }
+
+      if (this.registers.indexOf(this.selected) == -1) {
+        this.selected = '';
+      }
+    }
   }
 }
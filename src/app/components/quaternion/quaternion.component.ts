@@ -32,12 +32,13 @@ import { Component
 // state/etc
 import { Store } from "@ngrx/store";
 
-import { QInputs } from "../../state/definitions/QInputs";
 import { Q       } from "../../state/definitions/Q";
+import { QRecord } from "../../state/definitions/QRecord";
 
-import { QMemory   } from "../../state/definitions/QMemory";
-import { CalcState } from "../../state/definitions/CalcState";
-import * as CalcActions from '../../state/actions/CalcActions';
+import { QMemoryStore } from "../../state/definitions/QMemory";
+import { CalcState    } from "../../state/definitions/CalcState";
+import { CalcSettings, CalcDisplay } from "../../state/definitions/CalcSettings";
+import { selectQ1, selectQ2, selectRecall } from "../../state/selectors/calc.selectors";
 
 // RxJS
 import { Observable   } from 'rxjs/Observable';
@@ -45,6 +46,13 @@ import { Subscription } from "rxjs/Subscription";
 
 // utils
 import { NumberValidator } from "../../NumberValidator";
+import { Clipboard       } from "../../Clipboard";
+import { QCalc           } from "../../libs/QCalc";
+import { QRecords        } from "../../libs/QRecords";
+import { QFormat, QTextFormat } from "../../libs/QFormat";
+import { NumberFormat        } from "../../libs/NumberFormat";
+
+const DEG_TO_RAD: number = Math.PI / 180;
 
 @Component({
   selector: 'app-quaternion',
@@ -56,10 +64,12 @@ import { NumberValidator } from "../../NumberValidator";
 export class QuaternionComponent implements OnInit, OnDestroy
 {
   // NGRX/Store
-  protected _inputs: Observable<QInputs>;         // input section of State
-  protected _memory: Observable<QMemory>;         // memory section of State
-  protected _inputSub: Subscription;
-  protected _memorySub: Subscription;
+  protected _q: Observable<QRecord>;              // this quaternion in the inputs section of State
+  protected _recall: Observable<QMemoryStore>;    // most recent memory recall
+  protected _settings: Observable<CalcSettings>;  // settings section of State
+  protected _qSub: Subscription;
+  protected _recallSub: Subscription;
+  protected _settingsSub: Subscription;
 
   /**
    * ID for this quaternion which should be 'q1' or 'q2' for this application
@@ -81,13 +91,48 @@ export class QuaternionComponent implements OnInit, OnDestroy
   public j: number = 0;             // j-component
   public k: number = 0;             // k-component
 
+  // input mode - raw components or one of the rotation representations
+  public mode: string = 'components';
+
+  public modes: Array<Object> = [
+    {value: 'components', label: 'w, i, j, k'},
+    {value: 'axis'      , label: 'Axis-Angle'},
+    {value: 'euler'     , label: 'Euler Angles'},
+    {value: 'matrix'    , label: 'Rotation Matrix'},
+    {value: 'text'      , label: 'Text'}
+  ];
+
+  // axis-angle rotation (angle in degrees)
+  public axis: Array<number> = [0, 0, 1];
+  public angle: number       = 0;
+
+  // Euler-angle rotation (angles in degrees, in the order of the axes in the convention)
+  public eulerOrders: Array<string> = QCalc.EULER_ORDERS;
+  public eulerOrder: string         = 'ZYX';
+  public euler: Array<number>       = [0, 0, 0];
+
+  // rotation matrix in the row-vector convention of the Typescript Math Toolkit
+  public matrix: Array< Array<number> > = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+
+  // single-line text entry in any QFormat style; the selected format is used for display and copy
+  public formats: Array<QTextFormat> = QFormat.FORMATS;
+  public format: string              = 'algebraic';
+  public text: string                = '';
+  public textError: string           = '';
+
+  // component order and multiplication convention from the settings
+  public order: string          = 'wxyz';
+  public multiplication: string = 'hamilton';
+  public display: CalcDisplay   = NumberFormat.DEFAULTS;
+
   constructor(protected _store: Store<CalcState>)
   {
-    this._inputs = this._store.select('inputs');
-    this._memory = this._store.select('memory');
+    this._recall   = this._store.select(selectRecall);
+    this._settings = this._store.select('settings');
+
+    this._recallSub = this._recall.subscribe( (recall: QMemoryStore) => this.__onRecall(recall) );
 
-    this._inputSub  = this._inputs.subscribe( (input: QInputs ) => this.__onInputs(input)  );
-    this._memorySub = this._memory.subscribe( (memory: QMemory) => this.__onMemory(memory) );
+    this._settingsSub = this._settings.subscribe( (settings: CalcSettings) => this.__onSettings(settings) );
 
     this._change = new EventEmitter<Q>();
   }
@@ -99,7 +144,9 @@ export class QuaternionComponent implements OnInit, OnDestroy
    */
   public ngOnInit(): void
   {
-    // reserved for future use
+    // the id is an input, so the quaternion to display is not known until now
+    this._q    = this._store.select(this.id == 'q2' ? selectQ2 : selectQ1);
+    this._qSub = this._q.subscribe( (q: QRecord) => this.__onQ(q) );
   }
 
   /**
@@ -109,8 +156,12 @@ export class QuaternionComponent implements OnInit, OnDestroy
    */
   public ngOnDestroy(): void
   {
-    this._inputSub.unsubscribe();
-    this._memorySub.unsubscribe();
+    if (this._qSub) {
+      this._qSub.unsubscribe();
+    }
+
+    this._recallSub.unsubscribe();
+    this._settingsSub.unsubscribe();
   }
 
   /**
@@ -123,44 +174,177 @@ export class QuaternionComponent implements OnInit, OnDestroy
     this._change.emit( new Q(this.w, this.i, this.j, this.k, this.id) );
   }
 
+  /**
+   * A single component has been edited; components are displayed (and edited) according to the display settings
+   *
+   * @param {string} component 'w', 'i', 'j', or 'k'
+   *
+   * @param {any} evt Change event of the component input
+   *
+   * @returns {nothing} Emits 'qChanged' event if the entry is a number; otherwise the prior value is redisplayed
+   */
+  public onComponentChanged(component: string, evt: any): void
+  {
+    const value: number         = NumberFormat.parse(evt.target.value, this.display);
+    const index: number         = 'wijk'.indexOf(component);
+    const values: Array<number> = [this.w, this.i, this.j, this.k];
+
+    if (!isNaN(value) && isFinite(value))
+    {
+      values[index] = value;
+
+      [this.w, this.i, this.j, this.k] = values;
+
+      this.onChanged();
+    }
+
+    evt.target.value = NumberFormat.format(values[index], this.display);
+  }
+
+  /**
+   * The input mode has changed
+   *
+   * @returns {nothing} Text mode is initialized with the current value in the selected format
+   */
+  public onModeChanged(): void
+  {
+    if (this.mode == 'text') {
+      this.__toText();
+    }
+  }
+
+  /**
+   * The text format has changed
+   *
+   * @returns {nothing} Current value is redisplayed in the new format
+   */
+  public onFormatChanged(): void
+  {
+    this.__toText();
+  }
+
+  /**
+   * Set this quaternion from the text field
+   *
+   * @returns {nothing} The parsed quaternion is displayed and 'qChanged' is emitted; a parse error is
+   * displayed with the text field and leaves the quaternion unchanged
+   */
+  public onTextApply(): void
+  {
+    let q: Q;
+
+    try
+    {
+      q = QFormat.parse(this.text, this.order);
+    }
+    catch (err)
+    {
+      this.textError = err.message;
+      return;
+    }
+
+    this.__apply(q);
+  }
+
+  /**
+   * Copy the current value to the clipboard in the selected text format
+   *
+   * @returns {nothing}
+   */
+  public onCopy(): void
+  {
+    Clipboard.copy( QFormat.format(QRecords.create(this.w, this.i, this.j, this.k), this.format, this.order) );
+  }
+
+  /**
+   * Set this quaternion from the rotation described in the current input mode
+   *
+   * @returns {nothing} The rotation quaternion is emitted in 'qChanged' and its raw components are displayed
+   */
+  public onRotationApply(): void
+  {
+    let q: Q;
+
+    switch (this.mode)
+    {
+      case 'axis':
+        q = QCalc.fromAxisAngle(this.axis.map( (v: number) => +v ), +this.angle*DEG_TO_RAD, this.multiplication);
+      break;
+
+      case 'euler':
+        q = QCalc.fromEulerAngles(this.euler.map( (v: number) => +v*DEG_TO_RAD ), this.eulerOrder, this.multiplication);
+      break;
+
+      case 'matrix':
+        q = QCalc.fromRotationMatrix( this.matrix.map( (row: Array<number>) => row.map( (v: number) => +v ) ), this.multiplication );
+      break;
+
+      default:
+        return;
+    }
+
+    this.__apply(q);
+  }
+
+  /** @internal */
+  public __trackIndex(index: number): number
+  {
+    return index;
+  }
+
   /** @internal */
   public __checkNumber(evt: any): boolean
   {
     return NumberValidator.validate(evt);
   }
 
-  // input state was updated
-  protected __onInputs(input: QInputs): void
+  // emit a quaternion computed from one of the alternate input modes and return to raw components; the change is
+  // dispatched (once) by the parent, as is any edit of the components
+  protected __apply(q: Q): void
+  {
+    q.id = this.id;
+
+    [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
+    this.mode      = 'components';
+    this.textError = '';
+
+    this._change.emit( q.clone() );
+  }
+
+  // display the current value in the text field
+  protected __toText(): void
+  {
+    this.text      = QFormat.format(QRecords.create(this.w, this.i, this.j, this.k), this.format, this.order);
+    this.textError = '';
+  }
+
+  // the value of this quaternion in the store has changed (the selector does not emit an unchanged value)
+  protected __onQ(q: QRecord): void
+  {
+    if (q) {
+      [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
+    }
+  }
+
+  // settings were updated
+  protected __onSettings(settings: CalcSettings): void
   {
-    if (input)
+    if (settings)
     {
-      // this is not necessary, but shows how to isolate the update process to a specific action, i.e. we don't need
-      // to update the quaternion display every time an operation is performed, even though it is rather trivial
-      if (input.action == CalcActions.INIT || input.action == CalcActions.Q_CLEAR)
-      {
-        let q: Q = this.id == 'q1' ? input.q1 : input.q2;
-
-        [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
-      }
+      this.order          = settings.order;
+      this.multiplication = settings.multiplication;
+      this.display        = settings.display;
     }
   }
 
-  // quaternion memory operation
-  protected __onMemory(m: QMemory): void
+  // a memory register was recalled into an input
+  protected __onRecall(recall: QMemoryStore): void
   {
-    if (m !== undefined && m != null)
+    // only update comparable id's
+    if (recall && ((recall.id == "Q_1" && this.id == 'q1') || (recall.id == "Q_2" && this.id == 'q2')))
     {
-      // only update inputs if the action is from-memory as this same method will be executed on a to-memory action
-      if (m.action == CalcActions.FROM_MEMORY)
-      {
-        // only update comparable id's
-        if ((m.id == "Q_1" && this.id == 'q1') ||
-            (m.id == "Q_2" && this.id == 'q2'))
-        {
-          let q: Q = m.memory;
-          [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
-        }
-      }
+      const q: QRecord = recall.memory;
+      [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
     }
   }
 }
@@ -28,11 +28,23 @@ import { Component
 
 import { Store } from "@ngrx/store";
 
-import { QInputs } from "../../state/definitions/QInputs";
-import { Q       } from "../../state/definitions/Q";
+import { QRecord      } from "../../state/definitions/QRecord";
+import { QDiagnostics } from "../../state/definitions/QDiagnostics";
 
 import { CalcState } from "../../state/definitions/CalcState";
-import * as CalcActions from '../../state/actions/CalcActions';
+import { CalcSettings, CalcDisplay } from "../../state/definitions/CalcSettings";
+import { selectResult
+       , selectDiagnostics
+       , selectResultNorm
+       , selectResultIsUnit
+       , selectResultRotation
+} from "../../state/selectors/calc.selectors";
+
+import { QCalc, QAxisAngle } from "../../libs/QCalc";
+import { QFormat, QTextFormat } from "../../libs/QFormat";
+import { NumberFormat } from "../../libs/NumberFormat";
+import { QRecords     } from "../../libs/QRecords";
+import { Clipboard } from "../../Clipboard";
 
 // RxJS
 import { Observable   } from 'rxjs/Observable';
@@ -53,16 +65,79 @@ export class ResultComponent implements OnInit, OnDestroy
   public j: number = 0;             // j-component
   public k: number = 0;             // k-component
 
+  // numerical warning of the result (badge label and description), empty if the result is sound
+  public warning: string       = '';
+  public warningDetail: string = '';
+  public suspect: boolean      = false;    // true if the displayed value is not the value of the result
+
+  public norm: number   = 0;                // |result|
+  public unit: boolean  = false;            // is the result a unit quaternion?
+
+  // alternate views of the result as a rotation
+  public view: string = 'components';
+
+  public views: Array<Object> = [
+    {value: 'components', label: 'w, i, j, k'},
+    {value: 'matrix'    , label: 'Rotation Matrix'},
+    {value: 'axis'      , label: 'Axis-Angle'},
+    {value: 'euler'     , label: 'Euler Angles'},
+    {value: 'text'      , label: 'Text'}
+  ];
+
+  public degrees: boolean = true;   // display angles in degrees (true) or radians (false)
+
+  public eulerOrders: Array<string> = QCalc.EULER_ORDERS;
+  public eulerOrder: string         = 'ZYX';
+
+  public matrix: Array< Array<number> > = [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  public axis: Array<number>            = [1, 0, 0];
+  public angle: number                  = 0;
+  public euler: Array<number>           = [0, 0, 0];
+
+  // text view of the result in a selectable QFormat style, which is also used for copy
+  public formats: Array<QTextFormat> = QFormat.FORMATS;
+  public format: string              = 'algebraic';
+  public text: string                = '0 + 0i + 0j + 0k';
+
+  // component order and multiplication convention from the settings
+  public order: string          = 'wxyz';
+  public multiplication: string = 'hamilton';
+  public display: CalcDisplay   = NumberFormat.DEFAULTS;
+
+  // rotation of the result (angle in radians) in the current multiplication convention
+  protected _rotation: QAxisAngle = {axis: [1, 0, 0], angle: 0};
+
   // NGRX/Store
-  protected _inputs: Observable<QInputs>;         // input section of State
-  protected _inputsSub: Subscription;
+  protected _result: Observable<QRecord>;             // result quaternion in the inputs section of State
+  protected _diagnostics: Observable<QDiagnostics>;   // diagnostics of the result
+  protected _norm: Observable<number>;                // norm of the result
+  protected _unit: Observable<boolean>;               // is the result unit?
+  protected _rotations: Observable<QAxisAngle>;       // result as an axis-angle rotation
+  protected _settings: Observable<CalcSettings>;      // settings section of State
+  protected _resultSub: Subscription;
+  protected _diagnosticsSub: Subscription;
+  protected _normSub: Subscription;
+  protected _unitSub: Subscription;
+  protected _rotationSub: Subscription;
+  protected _settingsSub: Subscription;
 
   constructor(protected _store: Store<CalcState>)
   {
-    // the usual suspects ...
-    this._inputs = this._store.select('inputs');
+    // selectors only emit when the selected value changes
+    this._result      = this._store.select(selectResult);
+    this._diagnostics = this._store.select(selectDiagnostics);
+    this._norm        = this._store.select(selectResultNorm);
+    this._unit        = this._store.select(selectResultIsUnit);
+    this._rotations   = this._store.select(selectResultRotation);
+
+    this._resultSub      = this._result.subscribe( (q: QRecord) => this.__onResult(q) );
+    this._diagnosticsSub = this._diagnostics.subscribe( (d: QDiagnostics) => this.__updateWarning(d) );
+    this._normSub        = this._norm.subscribe( (norm: number) => this.norm = norm );
+    this._unitSub        = this._unit.subscribe( (unit: boolean) => this.unit = unit );
+    this._rotationSub    = this._rotations.subscribe( (rotation: QAxisAngle) => this.__onRotation(rotation) );
 
-    this._inputsSub = this._inputs.subscribe( (input: QInputs ) => this.__onInputs(input)  );
+    this._settings    = this._store.select('settings');
+    this._settingsSub = this._settings.subscribe( (settings: CalcSettings) => this.__onSettings(settings) );
   }
 
   /**
@@ -82,20 +157,136 @@ export class ResultComponent implements OnInit, OnDestroy
    */
   public ngOnDestroy(): void
   {
-    this._inputsSub.unsubscribe();
+    this._resultSub.unsubscribe();
+    this._diagnosticsSub.unsubscribe();
+    this._normSub.unsubscribe();
+    this._unitSub.unsubscribe();
+    this._rotationSub.unsubscribe();
+    this._settingsSub.unsubscribe();
   }
 
-  // execute whenever inputs change
-  protected __onInputs(input: QInputs): void
+  /**
+   * Access the label for the current angle units
+   *
+   * @returns {string} 'deg' or 'rad'
+   */
+  public get units(): string
+  {
+    return this.degrees ? 'deg' : 'rad';
+  }
+
+  /**
+   * Toggle between degrees and radians for displayed angles
+   *
+   * @returns {nothing}
+   */
+  public onToggleUnits(): void
+  {
+    this.degrees = !this.degrees;
+
+    this.__onRotation(this._rotation);
+    this.__updateReadouts();
+  }
+
+  /**
+   * The Euler-angle convention has changed
+   *
+   * @returns {nothing}
+   */
+  public onOrderChanged(): void
+  {
+    this.__updateReadouts();
+  }
+
+  /**
+   * The text format has changed
+   *
+   * @returns {nothing}
+   */
+  public onFormatChanged(): void
   {
-    if (input !== undefined && input != null)
+    this.__updateReadouts();
+  }
+
+  /**
+   * Copy the result to the clipboard in the selected text format
+   *
+   * @returns {nothing}
+   */
+  public onCopy(): void
+  {
+    Clipboard.copy(this.text);
+  }
+
+  // execute whenever the value of the result changes
+  protected __onResult(q: QRecord): void
+  {
+    if (q)
+    {
+      [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
+
+      this.__updateReadouts();
+    }
+  }
+
+  // execute whenever the rotation of the result changes (with the result or the multiplication convention)
+  protected __onRotation(rotation: QAxisAngle): void
+  {
+    const f: number = this.degrees ? 180 / Math.PI : 1;
+
+    this._rotation = rotation;
+    this.axis      = rotation.axis;
+    this.angle     = rotation.angle*f;
+  }
+
+  // execute whenever settings change
+  protected __onSettings(settings: CalcSettings): void
+  {
+    if (settings)
     {
-      if (input.action != CalcActions.Q_NONE)
-      {
-        let q: Q = input.result;
+      this.order          = settings.order;
+      this.multiplication = settings.multiplication;
+      this.display        = settings.display;
+
+      this.__updateReadouts();
+    }
+  }
 
-        [this.w, this.i, this.j, this.k] = [q.w, q.i, q.j, q.k];
-      }
+  // badge for the diagnostics of the current result
+  protected __updateWarning(diagnostics: QDiagnostics): void
+  {
+    this.suspect = diagnostics.singular || diagnostics.nonFinite;
+
+    if (diagnostics.singular)
+    {
+      this.warning       = 'Singular';
+      this.warningDetail = 'The divisor, or the argument of a logarithm or negative power, is (nearly) zero, so the result is not defined';
+    }
+    else if (diagnostics.nonFinite)
+    {
+      this.warning       = 'Overflow';
+      this.warningDetail = 'A component of the result is not a finite number';
+    }
+    else if (diagnostics.nearSingular)
+    {
+      this.warning       = 'Near-singular';
+      this.warningDetail = 'The divisor is close to zero, so the result may be inaccurate';
+    }
+    else
+    {
+      this.warning       = '';
+      this.warningDetail = '';
     }
   }
+
+  // recompute the matrix, Euler-angle and text views of the current result
+  protected __updateReadouts(): void
+  {
+    const q: QRecord = QRecords.create(this.w, this.i, this.j, this.k);
+    const f: number  = this.degrees ? 180 / Math.PI : 1;
+
+    this.matrix = QCalc.toRotationMatrix(q, this.multiplication);
+    this.euler  = QCalc.toEulerAngles(q, this.eulerOrder, this.multiplication).map( (a: number) => a*f );
+    this.text   = QFormat.format(q, this.format, this.order);
+  }
 }
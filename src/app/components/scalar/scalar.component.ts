@@ -0,0 +1,123 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A scalar operand for the quaternion-scalar operations
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { Component
+       , OnInit
+       , OnDestroy
+       , Output
+       , EventEmitter
+} from '@angular/core';
+
+// state/etc
+import { Store } from "@ngrx/store";
+
+import { QInputs   } from "../../state/definitions/QInputs";
+import { CalcState } from "../../state/definitions/CalcState";
+import * as CalcActions from '../../state/actions/CalcActions';
+
+// RxJS
+import { Observable   } from 'rxjs/Observable';
+import { Subscription } from "rxjs/Subscription";
+
+// utils
+import { NumberValidator } from "../../NumberValidator";
+
+@Component({
+  selector: 'app-scalar',
+
+  templateUrl: './scalar.component.html',
+
+  styleUrls: ['./scalar.component.scss']
+})
+export class ScalarComponent implements OnInit, OnDestroy
+{
+  // NGRX/Store
+  protected _inputs: Observable<QInputs>;         // input section of State
+  protected _inputSub: Subscription;
+
+  /**
+   * scalar value changes due to user input
+   *
+   * @type{number}
+   */
+  @Output('sChanged') _change: EventEmitter<number> = new EventEmitter<number>();
+
+  // scalar value
+  public s: number = 1;
+
+  constructor(protected _store: Store<CalcState>)
+  {
+    this._inputs   = this._store.select('inputs');
+    this._inputSub = this._inputs.subscribe( (input: QInputs) => this.__onInputs(input) );
+  }
+
+  /**
+   * Angular lifecycle handler - on init
+   *
+   * @returns {nothing}
+   */
+  public ngOnInit(): void
+  {
+    // reserved for future use
+  }
+
+  /**
+   * Angular lifecycle handler - on destroy
+   *
+   * @returns {nothing}
+   */
+  public ngOnDestroy(): void
+  {
+    this._inputSub.unsubscribe();
+  }
+
+  /**
+   * The scalar value has changed
+   *
+   * @returns {nothing} Emits 'sChanged' event
+   */
+  public onChanged(): void
+  {
+    this._change.emit(+this.s);
+  }
+
+  /** @internal */
+  public __checkNumber(evt: any): boolean
+  {
+    return NumberValidator.validate(evt);
+  }
+
+  // input state was updated
+  protected __onInputs(input: QInputs): void
+  {
+    if (input)
+    {
+      // as with the quaternion inputs, the display only needs to follow the store on init or clear
+      if (input.action == CalcActions.INIT || input.action == CalcActions.Q_CLEAR ||
+          input.action == CalcActions.UNDO || input.action == CalcActions.REDO || input.action == CalcActions.JUMP_TO ||
+          input.action == CalcActions.RESTORE_OPERANDS || input.action == CalcActions.SYNC_INPUTS) {
+        this.s = input.scalar;
+      }
+    }
+  }
+}
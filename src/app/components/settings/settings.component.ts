@@ -0,0 +1,200 @@
+/**
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * User-selected conventions and number display that apply across the calculator
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { Component
+       , OnInit
+       , OnDestroy
+} from '@angular/core';
+
+// state/etc
+import { Store } from "@ngrx/store";
+
+import { CalcSettings } from "../../state/definitions/CalcSettings";
+import { CalcState    } from "../../state/definitions/CalcState";
+import * as CalcActions from '../../state/actions/CalcActions';
+
+// RxJS
+import { Observable   } from 'rxjs/Observable';
+import { Subscription } from "rxjs/Subscription";
+
+// utils
+import { NumberValidator } from "../../NumberValidator";
+import { NumberFormat    } from "../../libs/NumberFormat";
+
+@Component({
+  selector: 'app-settings',
+
+  templateUrl: './settings.component.html',
+
+  styleUrls: ['./settings.component.scss']
+})
+export class SettingsComponent implements OnInit, OnDestroy
+{
+  // NGRX/Store
+  protected _settings: Observable<CalcSettings>;  // settings section of State
+  protected _settingsSub: Subscription;
+
+  public orders: Array<Object> = [
+    {value: 'wxyz', label: 'w, x, y, z'},
+    {value: 'xyzw', label: 'x, y, z, w'}
+  ];
+
+  public multiplications: Array<Object> = [
+    {value: 'hamilton', label: 'Hamilton (ij = k)'},
+    {value: 'jpl'     , label: 'JPL (ij = -k)'}
+  ];
+
+  public notations: Array<Object> = [
+    {value: 'auto'      , label: 'Auto'},
+    {value: 'fixed'     , label: 'Fixed'},
+    {value: 'scientific', label: 'Scientific'}
+  ];
+
+  public separators: Array<Object> = [
+    {value: 'locale', label: 'Locale'},
+    {value: '.'     , label: 'Point (.)'},
+    {value: ','     , label: 'Comma (,)'}
+  ];
+
+  public slices: Array<Object> = [
+    {value: 'memory', label: 'Memory'},
+    {value: 'inputs', label: 'Inputs'}
+  ];
+
+  // current settings
+  public order: string          = 'wxyz';
+  public multiplication: string = 'hamilton';
+
+  // slices of the store shared with other tabs
+  public shared: Array<string> = ['memory'];
+
+  // number display
+  public decimals: number  = NumberFormat.DEFAULTS.decimals;
+  public notation: string  = NumberFormat.DEFAULTS.notation;
+  public epsilon: number   = NumberFormat.DEFAULTS.epsilon;
+  public separator: string = NumberFormat.DEFAULTS.separator;
+
+  constructor(protected _store: Store<CalcState>)
+  {
+    this._settings    = this._store.select('settings');
+    this._settingsSub = this._settings.subscribe( (settings: CalcSettings) => this.__onSettings(settings) );
+  }
+
+  /**
+   * Angular lifecycle handler - on init
+   *
+   * @returns {nothing}
+   */
+  public ngOnInit(): void
+  {
+    // reserved for future use
+  }
+
+  /**
+   * Angular lifecycle handler - on destroy
+   *
+   * @returns {nothing}
+   */
+  public ngOnDestroy(): void
+  {
+    this._settingsSub.unsubscribe();
+  }
+
+  /**
+   * The component order has changed
+   *
+   * @returns {nothing}
+   */
+  public onOrderChanged(): void
+  {
+    this._store.dispatch( new CalcActions.SetOrder(this.order) );
+  }
+
+  /**
+   * The multiplication convention has changed
+   *
+   * @returns {nothing}
+   */
+  public onMultiplicationChanged(): void
+  {
+    this._store.dispatch( new CalcActions.SetMultiplication(this.multiplication) );
+  }
+
+  /**
+   * The slices shared with other tabs have changed
+   *
+   * @returns {nothing}
+   */
+  public onSyncChanged(): void
+  {
+    this._store.dispatch( new CalcActions.SetSync({
+      memory: this.shared.indexOf('memory') != -1,
+      inputs: this.shared.indexOf('inputs') != -1
+    }) );
+  }
+
+  /**
+   * A number display setting has changed
+   *
+   * @returns {nothing} Decimal places are rounded into [0, NumberFormat.MAX_DECIMALS] and a negative or missing epsilon
+   * is zero
+   */
+  public onDisplayChanged(): void
+  {
+    const decimals: number = Math.round(+this.decimals);
+    const epsilon: number  = +this.epsilon;
+
+    this.decimals = isNaN(decimals) ? NumberFormat.DEFAULTS.decimals : Math.max(0, Math.min(NumberFormat.MAX_DECIMALS, decimals));
+    this.epsilon  = isNaN(epsilon) || !isFinite(epsilon) ? 0 : Math.max(0, epsilon);
+
+    this._store.dispatch( new CalcActions.SetDisplay({
+      decimals: this.decimals,
+      notation: this.notation,
+      epsilon: this.epsilon,
+      separator: this.separator
+    }) );
+  }
+
+  /** @internal */
+  public __checkNumber(evt: any): boolean
+  {
+    return NumberValidator.validate(evt);
+  }
+
+  // settings state was updated
+  protected __onSettings(settings: CalcSettings): void
+  {
+    if (settings)
+    {
+      this.order          = settings.order;
+      this.multiplication = settings.multiplication;
+
+      this.shared = this.slices.map( (s: Object) => s['value'] ).filter( (slice: string) => settings.sync[slice] );
+
+      this.decimals  = settings.display.decimals;
+      this.notation  = settings.display.notation;
+      this.epsilon   = settings.display.epsilon;
+      this.separator = settings.display.separator;
+    }
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Schema for saved calculator models.  Raw documents are migrated from older versions to the current version and then
+ * validated, so that a bad document is reported field-by-field instead of being loaded into the store.
+ *
+ * Version history:
+ *
+ * 1 - {q1, q2, op, memory} with no version field; memory is an empty array or a single [w, i, j, k] value
+ *
+ * 2 - adds the version field; memory is a collection of named registers, {name: [w, i, j, k]}
+ *
+ * 3 - adds the expression field
+ *
+ * 4 - adds the order and multiplication fields; quaternions are listed in the component order of the document
+ *
+ * 5 - adds the scalar, t and operand fields, so that every saved operation can be recomputed
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import * as CalcActions from '../state/actions/CalcActions';
+
+import { CalcModel, CalcModelError } from "../state/definitions/CalcModel";
+import { CalcState                 } from "../state/definitions/CalcState";
+import { QRecord                   } from "../state/definitions/QRecord";
+import { QRecords                  } from "./QRecords";
+import { QCalc                     } from "./QCalc";
+
+export class ModelSchema
+{
+  public static readonly VERSION: number = 5;
+
+  // calculator operations that may be saved with a model
+  public static readonly OPERATIONS: Array<string> = [
+    CalcActions.Q_NONE, CalcActions.Q_ADD, CalcActions.Q_SUBTRACT, CalcActions.Q_MULTIPLY, CalcActions.Q_DIVIDE,
+    CalcActions.Q_SLERP, CalcActions.Q_NLERP, CalcActions.Q_CONJUGATE, CalcActions.Q_INVERSE, CalcActions.Q_NORMALIZE,
+    CalcActions.Q_NORM, CalcActions.Q_ADD_SCALAR, CalcActions.Q_SUBTRACT_SCALAR, CalcActions.Q_SCALE,
+    CalcActions.Q_DIVIDE_BY_SCALAR, CalcActions.Q_SCALAR_DIVIDE, CalcActions.Q_EXP, CalcActions.Q_LOG, CalcActions.Q_SQRT,
+    CalcActions.Q_POW, CalcActions.Q_EXPRESSION
+  ];
+
+  // operations that are applied to one of the quaternions, which is identified by the operand of the model
+  public static readonly OPERAND_OPERATIONS: Array<string> = [
+    CalcActions.Q_CONJUGATE, CalcActions.Q_INVERSE, CalcActions.Q_NORMALIZE, CalcActions.Q_NORM, CalcActions.Q_ADD_SCALAR,
+    CalcActions.Q_SUBTRACT_SCALAR, CalcActions.Q_SCALE, CalcActions.Q_DIVIDE_BY_SCALAR, CalcActions.Q_SCALAR_DIVIDE,
+    CalcActions.Q_EXP, CalcActions.Q_LOG, CalcActions.Q_SQRT, CalcActions.Q_POW
+  ];
+
+  // migrations by source version; each converts a document to the next version
+  protected static MIGRATIONS: {[version: number]: (data: Object) => Object} = {
+    1: ModelSchema.__from1,
+    2: ModelSchema.__from2,
+    3: ModelSchema.__from3,
+    4: ModelSchema.__from4
+  };
+
+  constructor()
+  {
+    // empty
+  }
+
+  /**
+   * Package the saved portion of calculator state into a current-version model document
+   *
+   * @param {CalcState} state Calculator state; quaternions are listed in the component order of its settings
+   *
+   * @returns {CalcModel}
+   */
+  public static toModel(state: CalcState): CalcModel
+  {
+    const memory: {[register: string]: Array<number>} = {};
+    const registers: Object = state.memory ? state.memory.registers : {};
+    const order: string     = state.settings ? state.settings.order : 'wxyz';
+
+    const multiplication: string = state.settings ? state.settings.multiplication : 'hamilton';
+
+    Object.keys(registers).forEach( (name: string) => memory[name] = QCalc.toArray(registers[name], order) );
+
+    return {
+      version: ModelSchema.VERSION,
+      order: order,
+      multiplication: multiplication,
+      q1: QCalc.toArray(state.inputs.q1, order),
+      q2: QCalc.toArray(state.inputs.q2, order),
+      op: state.inputs.op,
+      operand: state.inputs.operand,
+      scalar: state.inputs.scalar,
+      t: state.inputs.t,
+      expression: state.inputs.expression,
+      memory: memory
+    };
+  }
+
+  /**
+   * Migrate a raw (parsed) document to the current version
+   *
+   * @param {Object} data Raw model document
+   *
+   * @returns {Object} Migrated document; this is unchanged if the document version is missing a migration, which is
+   * reported by validation
+   */
+  public static migrate(data: Object): Object
+  {
+    if (data === null || typeof data !== 'object') {
+      return data;
+    }
+
+    let version: number = data.hasOwnProperty('version') ? data['version'] : 1;
+
+    while (version < ModelSchema.VERSION && ModelSchema.MIGRATIONS[version] !== undefined)
+    {
+      data    = ModelSchema.MIGRATIONS[version](data);
+      version = data['version'];
+    }
+
+    return data;
+  }
+
+  /**
+   * Validate a current-version model document
+   *
+   * @param {Object} data Model document
+   *
+   * @returns {Array<CalcModelError>} Field-level errors; empty if the document is a valid CalcModel
+   */
+  public static validate(data: Object): Array<CalcModelError>
+  {
+    const errors: Array<CalcModelError> = new Array<CalcModelError>();
+
+    if (data === null || typeof data !== 'object' || data instanceof Array)
+    {
+      errors.push( {field: '', message: 'model must be an object'} );
+      return errors;
+    }
+
+    if (data['version'] !== ModelSchema.VERSION) {
+      errors.push( {field: 'version', message: 'unsupported version ' + data['version'] + ', expected ' + ModelSchema.VERSION} );
+    }
+
+    ModelSchema.__validateQ(data['q1'], 'q1', errors);
+    ModelSchema.__validateQ(data['q2'], 'q2', errors);
+
+    if (ModelSchema.OPERATIONS.indexOf(data['op']) == -1) {
+      errors.push( {field: 'op', message: 'unknown operation ' + JSON.stringify(data['op'])} );
+    }
+
+    if (ModelSchema.OPERAND_OPERATIONS.indexOf(data['op']) != -1)
+    {
+      if (data['operand'] !== 'q1' && data['operand'] !== 'q2') {
+        errors.push( {field: 'operand', message: 'must be q1 or q2'} );
+      }
+    }
+    else if (data['operand'] !== '') {
+      errors.push( {field: 'operand', message: 'must be empty unless the operation is unary or scalar'} );
+    }
+
+    ModelSchema.__validateNumber(data['scalar'], 'scalar', errors);
+    ModelSchema.__validateNumber(data['t'], 't', errors);
+
+    if (typeof data['expression'] !== 'string') {
+      errors.push( {field: 'expression', message: 'must be a string'} );
+    }
+
+    if (QCalc.COMPONENT_ORDERS.indexOf(data['order']) == -1) {
+      errors.push( {field: 'order', message: 'must be one of ' + QCalc.COMPONENT_ORDERS.join(', ')} );
+    }
+
+    if (QCalc.MULTIPLICATIONS.indexOf(data['multiplication']) == -1) {
+      errors.push( {field: 'multiplication', message: 'must be one of ' + QCalc.MULTIPLICATIONS.join(', ')} );
+    }
+
+    const memory: any = data['memory'];
+    if (memory === null || typeof memory !== 'object' || memory instanceof Array)
+    {
+      errors.push( {field: 'memory', message: 'must be a collection of named registers'} );
+    }
+    else
+    {
+      Object.keys(memory).forEach( (name: string) =>
+      {
+        if (name == '') {
+          errors.push( {field: 'memory', message: 'register name must not be empty'} );
+        }
+
+        ModelSchema.__validateQ(memory[name], 'memory.' + name, errors);
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Access a quaternion of a model document
+   *
+   * @param {CalcModel} model Valid, current-version model
+   *
+   * @param {Array<number>} values One of the quaternions listed in the model
+   *
+   * @returns {QRecord} Quaternion record with the listed components, in the component order of the model
+   */
+  public static toQ(model: CalcModel, values: Array<number>): QRecord
+  {
+    return QRecords.from( QCalc.fromArray(values, model.order) );
+  }
+
+  /**
+   * Migrate and validate a raw (parsed) document
+   *
+   * @param {Object} data Raw model document
+   *
+   * @returns {CalcModel} Current-version model
+   *
+   * @throws {Error} If the document is invalid after migration; the message lists each field-level error
+   */
+  public static parse(data: Object): CalcModel
+  {
+    const model: Object                 = ModelSchema.migrate(data);
+    const errors: Array<CalcModelError> = ModelSchema.validate(model);
+
+    if (errors.length > 0) {
+      throw new Error( 'INVALID MODEL: ' + ModelSchema.errorsToString(errors) );
+    }
+
+    return <CalcModel> model;
+  }
+
+  /**
+   * Format a list of validation errors
+   *
+   * @param {Array<CalcModelError>} errors Validation errors
+   *
+   * @returns {string} Errors as 'field: message', separated by semicolons
+   */
+  public static errorsToString(errors: Array<CalcModelError>): string
+  {
+    return errors.map( (e: CalcModelError) => (e.field != '' ? e.field + ': ' : '') + e.message ).join('; ');
+  }
+
+  // version 1 -> 2: a single memory value becomes register M1
+  protected static __from1(data: Object): Object
+  {
+    const memory: any = data['memory'];
+
+    return {
+      version: 2,
+      q1: data['q1'],
+      q2: data['q2'],
+      op: data['op'],
+      memory: memory instanceof Array ? (memory.length > 0 ? {'M1': memory} : {}) : memory
+    };
+  }
+
+  // version 2 -> 3: models prior to expressions have no expression
+  protected static __from2(data: Object): Object
+  {
+    return Object.assign({}, data, {version: 3, expression: ''});
+  }
+
+  // version 3 -> 4: older models list quaternions w-first and use Hamilton's convention
+  protected static __from3(data: Object): Object
+  {
+    return Object.assign({}, data, {version: 4, order: 'wxyz', multiplication: 'hamilton'});
+  }
+
+  // version 4 -> 5: older models did not save the scalar, interpolation parameter, or operand, so the calculator
+  // defaults are assumed, and a unary or scalar operation applies to q1
+  protected static __from4(data: Object): Object
+  {
+    const operand: string = ModelSchema.OPERAND_OPERATIONS.indexOf(data['op']) != -1 ? 'q1' : '';
+
+    return Object.assign({}, data, {version: 5, scalar: 1, t: 0.5, operand: operand});
+  }
+
+  protected static __validateNumber(value: any, field: string, errors: Array<CalcModelError>): void
+  {
+    if (typeof value !== 'number' || !isFinite(value)) {
+      errors.push( {field: field, message: 'must be a finite number, got ' + JSON.stringify(value)} );
+    }
+  }
+
+  protected static __validateQ(value: any, field: string, errors: Array<CalcModelError>): void
+  {
+    if ( !(value instanceof Array) || value.length != 4 )
+    {
+      errors.push( {field: field, message: 'must be an array of four numbers'} );
+      return;
+    }
+
+    value.forEach( (x: any, index: number) =>
+    {
+      if (typeof x !== 'number' || !isFinite(x)) {
+        errors.push( {field: field + '[' + index + ']', message: 'must be a finite number, got ' + JSON.stringify(x)} );
+      }
+    });
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Format numbers for display according to the display settings of the calculator (decimal places, notation, snapping
+ * of near-zero values, and decimal separator) and parse displayed numbers back into values
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { CalcDisplay } from "../state/definitions/CalcSettings";
+
+export class NumberFormat
+{
+  /**
+   * Display settings on startup
+   */
+  public static readonly DEFAULTS: CalcDisplay = {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: 'locale'};
+
+  public static readonly NOTATIONS: Array<string>  = ['auto', 'fixed', 'scientific'];
+  public static readonly SEPARATORS: Array<string> = ['locale', '.', ','];
+
+  // range of decimal places supported by toFixed() and toExponential()
+  public static readonly MAX_DECIMALS: number = 20;
+
+  // magnitude at and above which auto notation switches to scientific
+  protected static LARGE: number = 1e7;
+
+  constructor()
+  {
+    // empty
+  }
+
+  /**
+   * Format a number for display
+   *
+   * @param {number} x Value
+   *
+   * @param {CalcDisplay} display (optional) Display settings
+   * @default NumberFormat.DEFAULTS
+   *
+   * @returns {string} Formatted value; non-finite values are formatted by the runtime
+   */
+  public static format(x: number, display: CalcDisplay = NumberFormat.DEFAULTS): string
+  {
+    if (x === undefined || x == null || isNaN(x) || !isFinite(x)) {
+      return String(x);
+    }
+
+    const d: number = Math.max(0, Math.min(NumberFormat.MAX_DECIMALS, Math.round(display.decimals)));
+    const a: number = Math.abs(x) < display.epsilon ? 0 : x;
+
+    let s: string;
+
+    switch (display.notation)
+    {
+      case 'fixed':
+        s = a.toFixed(d);
+      break;
+
+      case 'scientific':
+        s = a.toExponential(d);
+      break;
+
+      default:
+        // fixed unless the value is very large or would be rounded to zero, without trailing zeros in either case
+        s = Math.abs(a) >= NumberFormat.LARGE || (a != 0 && +a.toFixed(d) == 0) ? a.toExponential(d) : a.toFixed(d);
+        s = s.indexOf('e') == -1 ? s.replace(/\.?0+$/, '') : s.replace(/\.?0+e/, 'e');
+
+        if (s == '') {
+          s = '0';
+        }
+    }
+
+    // a small negative value rounded to zero is displayed without a sign
+    if (/^-0(\.0*)?(e.*)?$/.test(s)) {
+      s = s.substring(1);
+    }
+
+    return NumberFormat.__separate(s, NumberFormat.separator(display));
+  }
+
+  /**
+   * Parse a displayed (or user-entered) number
+   *
+   * @param {string} text Number text, using the decimal separator of the display settings
+   *
+   * @param {CalcDisplay} display (optional) Display settings
+   * @default NumberFormat.DEFAULTS
+   *
+   * @returns {number} Value of the text, which is NaN if the text is not a number
+   */
+  public static parse(text: string, display: CalcDisplay = NumberFormat.DEFAULTS): number
+  {
+    let s: string     = text !== undefined && text != null ? String(text).trim() : '';
+    const sep: string = NumberFormat.separator(display);
+
+    if (s == '') {
+      return NaN;
+    }
+
+    if (sep != '.') {
+      s = s.split(sep).join('.');
+    }
+
+    return +s;
+  }
+
+  /**
+   * Access the decimal separator of display settings
+   *
+   * @param {CalcDisplay} display Display settings
+   *
+   * @returns {string} Separator; 'locale' is resolved to the separator of the browser locale
+   */
+  public static separator(display: CalcDisplay): string
+  {
+    if (display.separator != 'locale') {
+      return display.separator;
+    }
+
+    const sep: string = (1.5).toLocaleString().replace(/[0-9]/g, '');
+
+    return sep.length > 0 ? sep.charAt(0) : '.';
+  }
+
+  protected static __separate(s: string, sep: string): string
+  {
+    return sep == '.' ? s : s.replace('.', sep);
+  }
+}
@@ -0,0 +1,416 @@
+import { QCalc           } from './QCalc';
+import { TSMT$Quaternion } from './Quaternion';
+import { QExpression     } from './QExpression';
+import { Q               } from '../state/definitions/Q';
+import { QRecords        } from './QRecords';
+
+import * as CalcActions from '../state/actions/CalcActions';
+import { inputReducer   } from '../state/reducers/quaternion.reducers';
+
+// absolute tolerance of numeric comparisons
+const EPS: number = 1e-12;
+
+function expectQ(q: Q, expected: Array<number>, tol: number = EPS): void
+{
+  const actual: Array<number> = [q.w, q.i, q.j, q.k];
+
+  actual.forEach( (x: number, n: number) => {
+    if (!(Math.abs(x - expected[n]) <= tol)) {
+      fail('component ' + n + ' of [' + actual.join(', ') + '] differs from [' + expected.join(', ') + '] by more than ' + tol);
+    }
+  });
+}
+
+function values(q: Q): Array<number>
+{
+  return [q.w, q.i, q.j, q.k];
+}
+
+// a range of general, unit, nearly-real and pure quaternions
+const SAMPLES: Array<Q> = [
+  new Q(1, 2, 3, 4),
+  new Q(-1.5, 0.25, -0.75, 2),
+  new Q(0.5, -0.5, 0.5, -0.5),
+  new Q(0.1, 0, 0, 0.2),
+  new Q(-3, 1e-9, 0, 0),
+  new Q(2, 0, -1e-12, 0),
+  new Q(0, 0.3, -0.4, 1.2),
+  new Q(Math.cos(0.4), Math.sin(0.4)/Math.sqrt(3), Math.sin(0.4)/Math.sqrt(3), -Math.sin(0.4)/Math.sqrt(3))
+];
+
+describe('QCalc exp', () => {
+  it('should be one at zero', () => {
+    expectQ(QCalc.exp(new Q(0, 0, 0, 0)).q, [1, 0, 0, 0]);
+  });
+
+  it('should be the real exponential of a real quaternion', () => {
+    expectQ(QCalc.exp(new Q(1, 0, 0, 0)).q, [Math.E, 0, 0, 0]);
+    expectQ(QCalc.exp(new Q(-2.5, 0, 0, 0)).q, [Math.exp(-2.5), 0, 0, 0]);
+  });
+
+  it('should follow Euler\'s formula for a pure quaternion', () => {
+    expectQ(QCalc.exp(new Q(0, Math.PI/2, 0, 0)).q, [0, 1, 0, 0]);
+    expectQ(QCalc.exp(new Q(0, 0, Math.PI, 0)).q, [-1, 0, 0, 0]);
+
+    const v: Array<number> = [0.3, -0.4, 1.2];
+    const s: number        = 1.3;
+    expectQ(QCalc.exp(new Q(0, v[0], v[1], v[2])).q, [Math.cos(s), v[0]*Math.sin(s)/s, v[1]*Math.sin(s)/s, v[2]*Math.sin(s)/s]);
+  });
+
+  it('should be unit for a pure quaternion', () => {
+    expect(QCalc.norm(QCalc.exp(new Q(0, 2, -3, 5)).q)).toBeCloseTo(1, 12);
+  });
+
+  it('should be accurate for a nearly real quaternion', () => {
+    expectQ(QCalc.exp(new Q(0, 1e-10, 0, -2e-10)).q, [1, 1e-10, 0, -2e-10], 1e-20);
+    expectQ(QCalc.exp(new Q(1, 1e-6, 0, 0)).q, [Math.E*Math.cos(1e-6), Math.E*Math.sin(1e-6), 0, 0], 1e-15);
+  });
+
+  it('should scale by the exponential of the real part', () => {
+    SAMPLES.forEach( (q: Q) => {
+      expect(QCalc.norm(QCalc.exp(q).q)).toBeCloseTo(Math.exp(q.w), 10);
+    });
+  });
+});
+
+describe('QCalc log', () => {
+  it('should be zero at one', () => {
+    expectQ(QCalc.log(new Q(1, 0, 0, 0)).q, [0, 0, 0, 0]);
+  });
+
+  it('should be the real logarithm of a positive real quaternion', () => {
+    expectQ(QCalc.log(new Q(Math.E, 0, 0, 0)).q, [1, 0, 0, 0]);
+    expectQ(QCalc.log(new Q(0.25, 0, 0, 0)).q, [Math.log(0.25), 0, 0, 0]);
+  });
+
+  it('should take the logarithm of a negative real about i', () => {
+    expectQ(QCalc.log(new Q(-1, 0, 0, 0)).q, [0, Math.PI, 0, 0]);
+    expectQ(QCalc.log(new Q(-2, 0, 0, 0)).q, [Math.log(2), Math.PI, 0, 0]);
+  });
+
+  it('should be pure for a unit quaternion', () => {
+    expectQ(QCalc.log(new Q(0, 0, 1, 0)).q, [0, 0, Math.PI/2, 0]);
+    expectQ(QCalc.log(new Q(0.5, -0.5, 0.5, -0.5)).q, [0, -Math.PI/(3*Math.sqrt(3)), Math.PI/(3*Math.sqrt(3)), -Math.PI/(3*Math.sqrt(3))]);
+  });
+
+  it('should be accurate for a nearly real quaternion', () => {
+    expectQ(QCalc.log(new Q(1, 1e-12, 0, 0)).q, [0, 1e-12, 0, 0], 1e-20);
+
+    // near the negative real axis, the axis of the imaginary part is retained
+    const q: Q = QCalc.log(new Q(-2, 0, 1e-12, 0)).q;
+    expectQ(q, [Math.log(2), 0, Math.PI, 0], 1e-11);
+  });
+
+  it('should invert exp for an imaginary part of magnitude less than PI', () => {
+    SAMPLES.forEach( (q: Q) => {
+      const s: number = Math.sqrt(q.i*q.i + q.j*q.j + q.k*q.k);
+      if (s < Math.PI) {
+        expectQ(QCalc.log(QCalc.exp(q).q).q, values(q), 1e-12);
+      }
+    });
+  });
+
+  it('should be inverted by exp', () => {
+    SAMPLES.forEach( (q: Q) => {
+      expectQ(QCalc.exp(QCalc.log(q).q).q, values(q), 1e-12);
+    });
+  });
+
+  it('should have an infinite real part at zero in the library', () => {
+    const q: TSMT$Quaternion = new TSMT$Quaternion();
+    q.fromArray(0, 0, 0, 0);
+    q.log();
+
+    expect(q.toArray()).toEqual([-Infinity, 0, 0, 0]);
+  });
+});
+
+describe('QCalc pow', () => {
+  it('should be one at the zero power', () => {
+    SAMPLES.forEach( (q: Q) => expectQ(QCalc.pow(q, 0).q, [1, 0, 0, 0]) );
+  });
+
+  it('should be the identity at the first power', () => {
+    SAMPLES.forEach( (q: Q) => expectQ(QCalc.pow(q, 1).q, values(q), 1e-12) );
+  });
+
+  it('should agree with multiplication at integer powers', () => {
+    SAMPLES.forEach( (q: Q) => {
+      const q2: Q = QCalc.multiply(q, q);
+      const q3: Q = QCalc.multiply(q2, q);
+      const tol: number = 1e-12 * Math.pow(Math.max(1, QCalc.norm(q)), 3);
+
+      expectQ(QCalc.pow(q, 2).q, values(q2), tol);
+      expectQ(QCalc.pow(q, 3).q, values(q3), tol);
+    });
+  });
+
+  it('should agree with the inverse at the negative first power', () => {
+    SAMPLES.forEach( (q: Q) => expectQ(QCalc.pow(q, -1).q, values(QCalc.inverse(q).q), 1e-9) );
+  });
+
+  it('should scale the angle of a rotation', () => {
+    const axis: Array<number> = [1/Math.sqrt(2), 0, 1/Math.sqrt(2)];
+    const q: Q                = QCalc.fromAxisAngle(axis, 1.2);
+
+    expectQ(QCalc.pow(q, 0.25).q, values(QCalc.fromAxisAngle(axis, 0.3)));
+    expectQ(QCalc.pow(q, -2).q, values(QCalc.fromAxisAngle(axis, -2.4)));
+    expect(QCalc.norm(QCalc.pow(q, 0.37).q)).toBeCloseTo(1, 14);
+  });
+
+  it('should be the real power of a positive real quaternion', () => {
+    expectQ(QCalc.pow(new Q(9, 0, 0, 0), 0.5).q, [3, 0, 0, 0]);
+    expectQ(QCalc.pow(new Q(2, 0, 0, 0), -3).q, [0.125, 0, 0, 0]);
+  });
+
+  it('should take a fractional power of a negative real about i', () => {
+    expectQ(QCalc.pow(new Q(-4, 0, 0, 0), 0.5).q, [0, 2, 0, 0]);
+    expectQ(QCalc.pow(new Q(-8, 0, 0, 0), 2).q, [64, 0, 0, 0], 1e-12);
+  });
+
+  it('should handle zero', () => {
+    expectQ(QCalc.pow(new Q(0, 0, 0, 0), 2).q, [0, 0, 0, 0]);
+    expectQ(QCalc.pow(new Q(0, 0, 0, 0), 0).q, [1, 0, 0, 0]);
+
+    const q: TSMT$Quaternion = new TSMT$Quaternion();
+    q.fromArray(0, 0, 0, 0);
+    q.pow(-1);
+
+    expect(q.toArray()[0]).toBe(Infinity);
+  });
+
+  it('should agree with exp(t log(q))', () => {
+    SAMPLES.forEach( (q: Q) => {
+      const expected: Q = QCalc.exp( QCalc.multiplyByScalar(QCalc.log(q).q, 0.7) ).q;
+      expectQ(QCalc.pow(q, 0.7).q, values(expected), 1e-12);
+    });
+  });
+});
+
+describe('QCalc sqrt', () => {
+  it('should square to the input', () => {
+    SAMPLES.forEach( (q: Q) => {
+      const r: Q = QCalc.sqrt(q).q;
+      expectQ(QCalc.multiply(r, r), values(q), 1e-12 * Math.max(1, QCalc.norm(q)));
+    });
+  });
+
+  it('should have a non-negative real part', () => {
+    SAMPLES.forEach( (q: Q) => expect(QCalc.sqrt(q).q.w).not.toBeLessThan(0) );
+  });
+
+  it('should be the real root of a positive real quaternion', () => {
+    expectQ(QCalc.sqrt(new Q(4, 0, 0, 0)).q, [2, 0, 0, 0]);
+    expectQ(QCalc.sqrt(new Q(0, 0, 0, 0)).q, [0, 0, 0, 0]);
+  });
+
+  it('should take the root of a negative real about i', () => {
+    expectQ(QCalc.sqrt(new Q(-4, 0, 0, 0)).q, [0, 2, 0, 0]);
+  });
+
+  it('should be accurate near the real axis', () => {
+    // 1 + 2e-9 i = (1 + 1e-9 i)^2 to within rounding
+    expectQ(QCalc.sqrt(new Q(1, 2e-9, 0, 0)).q, [1, 1e-9, 0, 0], 1e-18);
+
+    // -1 + 2e-9 k = (1e-9 + k)^2 to within rounding
+    const r: Q = QCalc.sqrt(new Q(-1, 0, 0, 2e-9)).q;
+    expect(Math.abs(r.w - 1e-9)).toBeLessThan(1e-18);
+    expectQ(r, [1e-9, 0, 0, 1], 1e-15);
+  });
+
+  it('should halve the angle of a rotation', () => {
+    const axis: Array<number> = [0, 0.6, -0.8];
+    expectQ(QCalc.sqrt(QCalc.fromAxisAngle(axis, 2.2)).q, values(QCalc.fromAxisAngle(axis, 1.1)));
+  });
+
+  it('should agree with pow(q, 0.5)', () => {
+    SAMPLES.forEach( (q: Q) => expectQ(QCalc.sqrt(q).q, values(QCalc.pow(q, 0.5).q), 1e-12) );
+  });
+});
+
+describe('QExpression functions', () => {
+  const context = {q1: new Q(1, 2, 3, 4), q2: new Q(0, 0, 1, 0), registers: {}};
+
+  it('should evaluate exp, log, sqrt and pow', () => {
+    expectQ(QExpression.evaluate('exp(log(q1))', context), [1, 2, 3, 4], 1e-12);
+    expectQ(QExpression.evaluate('sqrt(q1) * sqrt(q1)', context), [1, 2, 3, 4], 1e-12);
+    expectQ(QExpression.evaluate('pow(q2, 2)', context), [-1, 0, 0, 0]);
+  });
+
+  it('should require a real exponent', () => {
+    expect( () => QExpression.evaluate('pow(q1, i)', context) ).toThrowError('t must be real');
+  });
+});
+
+describe('QCalc conventions', () => {
+  const p: Q = new Q(1, 2, 3, 4);
+  const q: Q = new Q(-0.5, 0.25, 1, -2);
+
+  it('should convert to and from arrays in either component order', () => {
+    expect( QCalc.toArray(p) ).toEqual([1, 2, 3, 4]);
+    expect( QCalc.toArray(p, 'xyzw') ).toEqual([2, 3, 4, 1]);
+    expect( values(QCalc.fromArray([2, 3, 4, 1], 'xyzw')) ).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should multiply with ij = -k in the JPL convention', () => {
+    expectQ(QCalc.multiply(new Q(0, 1, 0, 0), new Q(0, 0, 1, 0)), [0, 0, 0, 1]);
+    expectQ(QCalc.multiply(new Q(0, 1, 0, 0), new Q(0, 0, 1, 0), 'jpl'), [0, 0, 0, -1]);
+    expectQ(QCalc.multiply(p, q, 'jpl'), values(QCalc.multiply(q, p)));
+  });
+
+  it('should divide so that (p / q) * q = p in either convention', () => {
+    QCalc.MULTIPLICATIONS.forEach( (m: string) => {
+      expectQ(QCalc.multiply(QCalc.divide(p, q, m).q, q, m), values(p), 1e-12);
+    });
+  });
+
+  it('should represent a rotation by the conjugate of its Hamilton quaternion in the JPL convention', () => {
+    const axis: Array<number> = [0, 0.6, 0.8];
+    const h: Q                = QCalc.fromAxisAngle(axis, 1.1);
+
+    expectQ(QCalc.fromAxisAngle(axis, 1.1, 'jpl'), values(QCalc.conjugate(h)));
+    expectQ(QCalc.fromRotationMatrix(QCalc.toRotationMatrix(h), 'jpl'), values(QCalc.conjugate(h)));
+    expect( QCalc.toRotationMatrix(QCalc.conjugate(h), 'jpl') ).toEqual( QCalc.toRotationMatrix(h) );
+
+    const aa = QCalc.toAxisAngle(QCalc.conjugate(h), 'jpl');
+    expect(aa.angle).toBeCloseTo(1.1, 12);
+    expect(aa.axis[1]).toBeCloseTo(0.6, 12);
+  });
+
+  it('should compose rotations in the same order in either convention', () => {
+    const a: Array<number> = [0.3, -0.2, 0.9];
+
+    QCalc.MULTIPLICATIONS.forEach( (m: string) => {
+      const r: Q = QCalc.fromEulerAngles(a, 'ZYX', m);
+      const e: Array<number> = QCalc.toEulerAngles(r, 'ZYX', m);
+
+      e.forEach( (x: number, n: number) => expect(x).toBeCloseTo(a[n], 12) );
+    });
+  });
+
+  it('should compute a stored product in the convention of the action', () => {
+    const qi = QRecords.inputs();
+    qi.q1    = QRecords.create(0, 1, 0, 0);
+    qi.q2    = QRecords.create(0, 0, 1, 0);
+
+    const product = inputReducer(undefined, new CalcActions.QMultiply('jpl', qi));
+    expect(product.result).toEqual({w: 0, i: 0, j: 0, k: -1});
+
+    expect( inputReducer(product, new CalcActions.SetMultiplication('hamilton')).result ).toEqual({w: 0, i: 0, j: 0, k: 1});
+
+    // a tape entry computed in another convention is restored in the current convention
+    const restored = inputReducer(undefined, new CalcActions.RestoreOperands({id: 1, timestamp: 0, op: CalcActions.Q_MULTIPLY,
+      operand: '', expression: '', q1: qi.q1, q2: qi.q2, scalar: 1, t: 0.5, result: product.result}, 'hamilton'));
+
+    expect(restored.result).toEqual({w: 0, i: 0, j: 0, k: 1});
+  });
+});
+
+describe('QCalc diagnostics', () => {
+  const p: Q = new Q(1, 2, 3, 4);
+
+  it('should raise no diagnostics for a well-conditioned division', () => {
+    const r = QCalc.divide(p, new Q(0.5, -1, 0, 2));
+
+    expect(QRecords.raised(r.diagnostics)).toBe(false);
+    expect( QRecords.raised(QCalc.inverse(p).diagnostics) ).toBe(false);
+    expect( QRecords.raised(QCalc.divideByScalar(p, 2).diagnostics) ).toBe(false);
+    expect( QRecords.raised(QCalc.divideScalarBy(2, p).diagnostics) ).toBe(false);
+  });
+
+  it('should flag division by zero as singular', () => {
+    const zero: Q = new Q(0, 0, 0, 0);
+
+    expect( QCalc.divide(p, zero).diagnostics.singular ).toBe(true);
+    expect( QCalc.divide(p, new Q(1e-6, 0, 0, 0), 'jpl').diagnostics.singular ).toBe(true);
+    expect( QCalc.inverse(zero).diagnostics.singular ).toBe(true);
+    expect( QCalc.divideByScalar(p, 0).diagnostics.singular ).toBe(true);
+    expect( QCalc.divideScalarBy(3, zero).diagnostics.singular ).toBe(true);
+  });
+
+  it('should flag a small divisor as near-singular, but not singular', () => {
+    const r = QCalc.inverse( new Q(0, 1e-4, 0, 0) );
+
+    expect(r.diagnostics.nearSingular).toBe(true);
+    expect(r.diagnostics.singular).toBe(false);
+    expectQ(r.q, [0, -1e4, 0, 0], 1e-8);
+
+    expect( QCalc.divideByScalar(p, 1e-7).diagnostics.nearSingular ).toBe(true);
+  });
+
+  it('should flag an overflowed quotient as non-finite', () => {
+    const r = QCalc.divide(new Q(1e307, 0, 0, 0), new Q(0.01, 0, 0, 0));
+
+    expect(r.diagnostics.nonFinite).toBe(true);
+    expect(r.diagnostics.singular).toBe(false);
+  });
+
+  it('should raise the diagnostics of any division in an expression', () => {
+    const context = {q1: p, q2: new Q(0, 0, 0, 0), registers: {}, diagnostics: QRecords.diagnostics()};
+
+    QExpression.evaluate('q1 + q2', context);
+    expect(QRecords.raised(context.diagnostics)).toBe(false);
+
+    QExpression.evaluate('2 * inv(q2) + q1', context);
+    expect(context.diagnostics.singular).toBe(true);
+  });
+
+  it('should flag the logarithm of zero as singular and non-finite', () => {
+    const r = QCalc.log( new Q(0, 0, 0, 0) );
+
+    expect(r.diagnostics.singular).toBe(true);
+    expect(r.diagnostics.nonFinite).toBe(true);
+    expect( QRecords.raised(QCalc.log(new Q(1e-8, 0, 0, 0)).diagnostics) ).toBe(false);
+  });
+
+  it('should flag zero raised to a negative power as singular and non-finite', () => {
+    const zero: Q = new Q(0, 0, 0, 0);
+
+    expect(QCalc.pow(zero, -2).diagnostics.singular).toBe(true);
+    expect(QCalc.pow(zero, -0.5).diagnostics.nonFinite).toBe(true);
+    expect( QRecords.raised(QCalc.pow(zero, 2).diagnostics) ).toBe(false);
+    expect( QRecords.raised(QCalc.pow(zero, 0).diagnostics) ).toBe(false);
+    expect( QRecords.raised(QCalc.pow(p, -2).diagnostics) ).toBe(false);
+  });
+
+  it('should flag an overflowed exponential, power or root as non-finite, but not singular', () => {
+    const r = QCalc.exp( new Q(1000, 0, 0, 0) );
+
+    expect(r.diagnostics.nonFinite).toBe(true);
+    expect(r.diagnostics.singular).toBe(false);
+    expect([r.q.i, r.q.j, r.q.k]).toEqual([0, 0, 0]);
+
+    expect( QCalc.pow(new Q(1e200, 0, 0, 0), 2).diagnostics.nonFinite ).toBe(true);
+    expect( QCalc.sqrt(new Q(1e200, 1e200, 0, 0)).diagnostics.nonFinite ).toBe(true);
+    expect( QRecords.raised(QCalc.sqrt(p).diagnostics) ).toBe(false);
+  });
+
+  it('should raise the diagnostics of a logarithm or power in an expression', () => {
+    const context = {q1: p, q2: new Q(0, 0, 0, 0), registers: {}, diagnostics: QRecords.diagnostics()};
+
+    QExpression.evaluate('exp(q1) + sqrt(q1) + pow(q1, -1)', context);
+    expect(QRecords.raised(context.diagnostics)).toBe(false);
+
+    QExpression.evaluate('q1 + log(q2)', context);
+    expect(context.diagnostics.singular).toBe(true);
+    expect(context.diagnostics.nonFinite).toBe(true);
+  });
+
+  it('should store the diagnostics of a logarithm or negative power with the result', () => {
+    const qi = QRecords.inputs();
+    qi.q1    = QRecords.create(0, 0, 0, 0);
+    qi.q2    = QRecords.create(1, 2, 3, 4);
+
+    expect( inputReducer(undefined, new CalcActions.QLog({id: 'q1', inputs: qi})).diagnostics.singular ).toBe(true);
+    expect( QRecords.raised(inputReducer(undefined, new CalcActions.QLog({id: 'q2', inputs: qi})).diagnostics) ).toBe(false);
+
+    qi.scalar = -1;
+    expect( inputReducer(undefined, new CalcActions.QPow({id: 'q1', inputs: qi})).diagnostics.singular ).toBe(true);
+
+    // a restored power is diagnosed from its operands
+    const restored = inputReducer(undefined, new CalcActions.RestoreOperands({id: 1, timestamp: 0, op: CalcActions.Q_POW,
+      operand: 'q1', expression: '', q1: qi.q1, q2: qi.q2, scalar: -1, t: 0.5, result: qi.q1}, 'hamilton'));
+
+    expect(restored.diagnostics.singular).toBe(true);
+  });
+});
@@ -20,6 +20,17 @@
  *
  * A unit Quaternion is defined on initialization.
  *
+ * Operands are any quaternion with named components, i.e. a record from the global store or a Q; results are always
+ * a new Q (convert with QRecords.from before a result is placed in the store).
+ *
+ * Component order ('wxyz' or 'xyzw') applies only to conversion between a Q and an array of numbers; a Q is always
+ * named by component.  The multiplication convention is either Hamilton's (ij = k, the convention of the Typescript
+ * Math Toolkit) or the JPL convention (ij = -k) used by some aerospace and robotics libraries.  JPL products are
+ * Hamilton products in reverse order, and the JPL quaternion of a rotation is the conjugate of its Hamilton quaternion.
+ *
+ * Division and inversion return the result along with its numerical diagnostics (see QDiagnostics), since the toolkit
+ * silently substitutes a divisor of one when the divisor is near zero.
+ *
  * @author Jim Armstrong (www.algorithmist.net)
  *
  * @version 1.0
@@ -27,9 +38,59 @@
 
 import {TSMT$Quaternion} from "./Quaternion";
 import { Q             } from "../state/definitions/Q";
+import { QRecord       } from "../state/definitions/QRecord";
+import { QDiagnostics  } from "../state/definitions/QDiagnostics";
+import { QRecords      } from "./QRecords";
+
+/**
+ * Axis-angle representation of a rotation (angle in radians)
+ */
+export interface QAxisAngle
+{
+  axis: Array<number>;
+
+  angle: number;
+}
+
+/**
+ * Result of a division or inversion and its numerical diagnostics
+ */
+export interface QResult
+{
+  q: Q;
+
+  diagnostics: QDiagnostics;
+}
 
 export class QCalc
 {
+  /**
+   * Supported Euler-angle conventions; 'ZYX', for example, is an intrinsic rotation about z, then y', then x''
+   * (yaw, pitch, roll), so that the resulting quaternion is qz * qy * qx
+   */
+  public static readonly EULER_ORDERS: Array<string> = ['XYZ', 'XZY', 'YXZ', 'YZX', 'ZXY', 'ZYX'];
+
+  /**
+   * Supported orders of quaternion components in an array, real part first or last
+   */
+  public static readonly COMPONENT_ORDERS: Array<string> = ['wxyz', 'xyzw'];
+
+  /**
+   * Supported multiplication conventions
+   */
+  public static readonly MULTIPLICATIONS: Array<string> = ['hamilton', 'jpl'];
+
+  /**
+   * A divisor (the squared norm of a quaternion or the magnitude of a scalar) below this value is replaced by one in the
+   * Typescript Math Toolkit, so the result is singular
+   */
+  public static readonly SINGULAR: number = 0.0000000001;
+
+  /**
+   * A divisor below this value produces a near-singular (poorly conditioned) result
+   */
+  public static readonly NEAR_SINGULAR: number = 0.000001;
+
   protected static Q1: TSMT$Quaternion = new TSMT$Quaternion();
   protected static Q2: TSMT$Quaternion = new TSMT$Quaternion();
 
@@ -41,13 +102,13 @@ export class QCalc
   /**
    * Add two quaternions
    *
-   * @param {Q} q1 4-tuple representing first input quaternion
+   * @param {QRecord} q1 4-tuple representing first input quaternion
    *
-   * @param {Q} q2 4=tuple representing second input quaternion
+   * @param {QRecord} q2 4=tuple representing second input quaternion
    *
    * @returns {Q} q1 + q2
    */
-  public static add(q1: Q, q2: Q): Q
+  public static add(q1: QRecord, q2: QRecord): Q
   {
     QCalc.Q1.fromArray(q1.w, q1.i, q1.j, q1.k);
     QCalc.Q2.fromArray(q2.w, q2.i, q2.j, q2.k);
@@ -62,13 +123,13 @@ export class QCalc
   /**
    * Subtract two quaternions
    *
-   * @param {Q} q1 4-tuple representing first input quaternion
+   * @param {QRecord} q1 4-tuple representing first input quaternion
    *
-   * @param {Q} q2 4=tuple representing second input quaternion
+   * @param {QRecord} q2 4=tuple representing second input quaternion
    *
    * @returns {Q} q1 - q2
    */
-  public static subtract(q1: Q, q2: Q): Q
+  public static subtract(q1: QRecord, q2: QRecord): Q
   {
     QCalc.Q1.fromArray(q1.w, q1.i, q1.j, q1.k);
     QCalc.Q2.fromArray(q2.w, q2.i, q2.j, q2.k);
@@ -80,17 +141,55 @@ export class QCalc
     return new Q(values[0], values[1], values[2], values[3]);
   }
 
+  /**
+   * Convert a quaternion to an array of components
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @param {string} order (optional) Component order, one of COMPONENT_ORDERS
+   * @default 'wxyz'
+   *
+   * @returns {Array<number>} [w, i, j, k] or [i, j, k, w]
+   */
+  public static toArray(q: QRecord, order: string = 'wxyz'): Array<number>
+  {
+    return order == 'xyzw' ? [q.i, q.j, q.k, q.w] : [q.w, q.i, q.j, q.k];
+  }
+
+  /**
+   * Create a quaternion from an array of components
+   *
+   * @param {Array<number>} values 4-tuple of components
+   *
+   * @param {string} order (optional) Component order, one of COMPONENT_ORDERS
+   * @default 'wxyz'
+   *
+   * @returns {Q} Quaternion with the components of the array
+   */
+  public static fromArray(values: Array<number>, order: string = 'wxyz'): Q
+  {
+    return order == 'xyzw' ? new Q(values[3], values[0], values[1], values[2]) : new Q(values[0], values[1], values[2], values[3]);
+  }
+
   /**
    * Mutiply two quaternions
    *
-   * @param {Q} q1 4-tuple representing first input quaternion
+   * @param {QRecord} q1 4-tuple representing first input quaternion
+   *
+   * @param {QRecord} q2 4=tuple representing second input quaternion
    *
-   * @param {Q} q2 4=tuple representing second input quaternion
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
    *
    * @returns {Q} q1 * q2
    */
-  public static multiply(q1: Q, q2: Q): Q
+  public static multiply(q1: QRecord, q2: QRecord, multiplication: string = 'hamilton'): Q
   {
+    // a JPL product is the Hamilton product in reverse order
+    if (multiplication == 'jpl') {
+      [q1, q2] = [q2, q1];
+    }
+
     QCalc.Q1.fromArray(q1.w, q1.i, q1.j, q1.k);
     QCalc.Q2.fromArray(q2.w, q2.i, q2.j, q2.k);
 
@@ -104,21 +203,556 @@ export class QCalc
   /**
    * Divide two quaternions
    *
-   * @param {Q} q1 4-tuple representing first input quaternion
+   * @param {QRecord} q1 4-tuple representing first input quaternion
+   *
+   * @param {QRecord} q2 4=tuple representing second input quaternion
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {QResult} q1 / q2, i.e. q1 * inverse(q2) in the multiplication convention, diagnosed by the squared norm
+   * of q2
+   */
+  public static divide(q1: QRecord, q2: QRecord, multiplication: string = 'hamilton'): QResult
+  {
+    if (multiplication == 'jpl')
+    {
+      // inverse(q2) * q1 in the Hamilton convention
+      QCalc.Q1.fromArray(q2.w, q2.i, q2.j, q2.k);
+      QCalc.Q2.fromArray(q1.w, q1.i, q1.j, q1.k);
+
+      QCalc.Q1.invert();
+      QCalc.Q1.multiply(QCalc.Q2);
+    }
+    else
+    {
+      QCalc.Q1.fromArray(q1.w, q1.i, q1.j, q1.k);
+      QCalc.Q2.fromArray(q2.w, q2.i, q2.j, q2.k);
+
+      QCalc.Q1.divide(QCalc.Q2);
+    }
+
+    return QCalc.__diagnosed( QCalc.__lengthSq(q2) );
+  }
+
+  /**
+   * Conjugate a quaternion
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {Q} Conjugate of q, i.e. w - ii - jj - kk
+   */
+  public static conjugate(q: QRecord): Q
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.conjugate();
+
+    const values: Array<number> = QCalc.Q1.toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  /**
+   * Invert a quaternion
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {QResult} Multiplicative inverse of q, diagnosed by the squared norm of q (the conjugate of q is returned
+   * if q is singular)
+   */
+  public static inverse(q: QRecord): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.invert();
+
+    return QCalc.__diagnosed( QCalc.__lengthSq(q) );
+  }
+
+  /**
+   * Normalize a quaternion
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {Q} Unit quaternion in the direction of q (q is returned unchanged if its norm is near zero)
+   */
+  public static normalize(q: QRecord): Q
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.normalize();
+
+    const values: Array<number> = QCalc.Q1.toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  /**
+   * Compute the norm (magnitude) of a quaternion
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {number} |q|
+   */
+  public static norm(q: QRecord): number
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    return QCalc.Q1.length();
+  }
+
+  /**
+   * Quaternion exponential
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {QResult} exp(q), which is not finite if the real part of q is large enough to overflow
+   */
+  public static exp(q: QRecord): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.exp();
+
+    return QCalc.__evaluated(false);
+  }
+
+  /**
+   * Quaternion natural logarithm (principal value)
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {QResult} log(q); the logarithm of a negative real is taken about the i axis.  The logarithm of zero is
+   * singular and not finite, so it can not be represented by Q, which retains its (zero) initial values.
+   */
+  public static log(q: QRecord): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.log();
+
+    return QCalc.__evaluated( QCalc.__lengthSq(q) == 0 );
+  }
+
+  /**
+   * Raise a quaternion to a real power
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @param {number} t Exponent
+   *
+   * @returns {QResult} q^t = exp(t log(q)); for a unit quaternion, this is a rotation by t times the angle of q.  Zero
+   * raised to a negative power is singular and not finite (see log).
+   */
+  public static pow(q: QRecord, t: number): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.pow(t);
+
+    return QCalc.__evaluated( QCalc.__lengthSq(q) == 0 && t < 0 );
+  }
+
+  /**
+   * Principal square root of a quaternion
    *
-   * @param {Q} q2 4=tuple representing second input quaternion
+   * @param {QRecord} q 4-tuple representing the input quaternion
    *
-   * @returns {Q} q1 / q2
+   * @returns {QResult} Square root of q with non-negative real part, which is not finite only if the norm of q overflows
    */
-  public static divide(q1: Q, q2: Q): Q
+  public static sqrt(q: QRecord): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.sqrt();
+
+    return QCalc.__evaluated(false);
+  }
+
+  /**
+   * Spherical linear interpolation between two quaternions
+   *
+   * @param {QRecord} q1 4-tuple representing the start quaternion (need not be unit)
+   *
+   * @param {QRecord} q2 4-tuple representing the end quaternion (need not be unit)
+   *
+   * @param {number} t Interpolation parameter in [0,1]
+   *
+   * @returns {Q} Unit quaternion along the shortest arc from q1 to q2 at the specified parameter
+   */
+  public static slerp(q1: QRecord, q2: QRecord, t: number): Q
   {
     QCalc.Q1.fromArray(q1.w, q1.i, q1.j, q1.k);
     QCalc.Q2.fromArray(q2.w, q2.i, q2.j, q2.k);
 
-    QCalc.Q1.divide(QCalc.Q2);
+    QCalc.Q1.normalize();
+    QCalc.Q2.normalize();
+
+    const values: Array<number> = QCalc.Q1.slerp(QCalc.Q2, t).toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  /**
+   * Normalized linear interpolation between two quaternions
+   *
+   * @param {QRecord} q1 4-tuple representing the start quaternion (need not be unit)
+   *
+   * @param {QRecord} q2 4-tuple representing the end quaternion (need not be unit)
+   *
+   * @param {number} t Interpolation parameter in [0,1]
+   *
+   * @returns {Q} Normalized linear interpolation from q1 to q2 at the specified parameter
+   */
+  public static nlerp(q1: QRecord, q2: QRecord, t: number): Q
+  {
+    QCalc.Q1.fromArray(q1.w, q1.i, q1.j, q1.k);
+    QCalc.Q2.fromArray(q2.w, q2.i, q2.j, q2.k);
+
+    QCalc.Q1.normalize();
+    QCalc.Q2.normalize();
+
+    const values: Array<number> = QCalc.Q1.nlerp(QCalc.Q2, t).toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  /**
+   * Add a scalar to a quaternion
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @param {number} a Scalar value
+   *
+   * @returns {Q} q + a
+   */
+  public static addScalar(q: QRecord, a: number): Q
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.addScalar(a);
 
     const values: Array<number> = QCalc.Q1.toArray();
 
     return new Q(values[0], values[1], values[2], values[3]);
   }
+
+  /**
+   * Subtract a scalar from a quaternion
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @param {number} a Scalar value
+   *
+   * @returns {Q} q - a
+   */
+  public static subtractScalar(q: QRecord, a: number): Q
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.subtractScalar(a);
+
+    const values: Array<number> = QCalc.Q1.toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  /**
+   * Multiply a quaternion by a scalar
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @param {number} a Scalar value
+   *
+   * @returns {Q} q * a
+   */
+  public static multiplyByScalar(q: QRecord, a: number): Q
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.multiplyByScalar(a);
+
+    const values: Array<number> = QCalc.Q1.toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  /**
+   * Divide a quaternion by a scalar
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @param {number} a Scalar value
+   *
+   * @returns {QResult} q / a, diagnosed by the magnitude of a (q is returned unchanged if a is singular)
+   */
+  public static divideByScalar(q: QRecord, a: number): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.divideByScalar(a);
+
+    return QCalc.__diagnosed( Math.abs(a) );
+  }
+
+  /**
+   * Divide a scalar by a quaternion
+   *
+   * @param {number} a Scalar value
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion
+   *
+   * @returns {QResult} a / q, diagnosed by the squared norm of q (a times the conjugate of q if q is singular)
+   */
+  public static divideScalarBy(a: number, q: QRecord): QResult
+  {
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    QCalc.Q1.divideScalarBy(a);
+
+    return QCalc.__diagnosed( QCalc.__lengthSq(q) );
+  }
+
+  /**
+   * Create a rotation quaternion from an axis and angle
+   *
+   * @param {Array<number>} axis 3-tuple representing the (not necessarily unit) rotation axis
+   *
+   * @param {number} angle Rotation angle in radians
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {Q} Unit quaternion representing the rotation (the identity if the axis is of near-zero length)
+   */
+  public static fromAxisAngle(axis: Array<number>, angle: number, multiplication: string = 'hamilton'): Q
+  {
+    const l: number = axis.length == 3 ? Math.sqrt(axis[0]*axis[0] + axis[1]*axis[1] + axis[2]*axis[2]) : 0.0;
+
+    if (l < 0.0000000001 || isNaN(l) || isNaN(angle)) {
+      return new Q(1, 0, 0, 0);
+    }
+
+    QCalc.Q1.fromAxisRotation(axis, angle);
+
+    return QCalc.__fromHamilton(multiplication);
+  }
+
+  /**
+   * Create a rotation quaternion from a sequence of Euler angles
+   *
+   * @param {Array<number>} angles 3-tuple of rotation angles in radians, in the same order as the axes in the convention
+   *
+   * @param {string} order Euler-angle convention, one of EULER_ORDERS
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {Q} Unit quaternion representing the rotation (the identity for an unsupported convention)
+   */
+  public static fromEulerAngles(angles: Array<number>, order: string, multiplication: string = 'hamilton'): Q
+  {
+    if (QCalc.EULER_ORDERS.indexOf(order) == -1 || angles.length != 3) {
+      return new Q(1, 0, 0, 0);
+    }
+
+    QCalc.Q1.fromArray(1, 0, 0, 0);
+
+    // intrinsic rotations compose left-to-right
+    let n: number;
+    for (n = 0; n < 3; ++n)
+    {
+      switch (order.charAt(n))
+      {
+        case 'X':
+          QCalc.Q2.fromXRotation(angles[n]);
+        break;
+
+        case 'Y':
+          QCalc.Q2.fromYRotation(angles[n]);
+        break;
+
+        case 'Z':
+          QCalc.Q2.fromZRotation(angles[n]);
+        break;
+      }
+
+      QCalc.Q1.multiply(QCalc.Q2);
+    }
+
+    return QCalc.__fromHamilton(multiplication);
+  }
+
+  /**
+   * Create a rotation quaternion from a 3x3 rotation matrix
+   *
+   * @param {Array<Array<number>>} m 3x3 rotation matrix in the row-vector convention used by the Typescript Math
+   * Toolkit, i.e. v' = vm
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {Q} Unit quaternion representing the rotation (the identity if the matrix is not 3x3)
+   */
+  public static fromRotationMatrix(m: Array< Array<number> >, multiplication: string = 'hamilton'): Q
+  {
+    if (!m || m.length != 3 || m.some( (row: Array<number>) => !row || row.length != 3 )) {
+      return new Q(1, 0, 0, 0);
+    }
+
+    QCalc.Q1.fromRotationMatrix(m);
+    QCalc.Q1.normalize();
+
+    return QCalc.__fromHamilton(multiplication);
+  }
+
+  /**
+   * Convert a quaternion into a 3x3 rotation matrix
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion (need not be unit)
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {Array<Array<number>>} 3x3 rotation matrix in the row-vector convention used by the Typescript Math
+   * Toolkit, i.e. v' = vm (the identity if q is of near-zero norm)
+   */
+  public static toRotationMatrix(q: QRecord, multiplication: string = 'hamilton'): Array< Array<number> >
+  {
+    q = QCalc.__toHamilton(q, multiplication);
+
+    QCalc.Q1.fromArray(q.w, q.i, q.j, q.k);
+
+    const m: Array< Array<number> > = QCalc.Q1.toRotationMatrix();
+
+    return m.length == 3 ? m : [[1, 0, 0], [0, 1, 0], [0, 0, 1]];
+  }
+
+  /**
+   * Convert a quaternion into an axis and angle
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion (need not be unit)
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {QAxisAngle} Unit rotation axis and angle in [0, 2PI] radians; the axis is arbitrarily the x-axis for a
+   * zero rotation or a quaternion of near-zero norm
+   */
+  public static toAxisAngle(q: QRecord, multiplication: string = 'hamilton'): QAxisAngle
+  {
+    q = QCalc.__toHamilton(q, multiplication);
+
+    const l: number = Math.sqrt(q.w*q.w + q.i*q.i + q.j*q.j + q.k*q.k);
+
+    if (l < 0.0000000001) {
+      return {axis: [1, 0, 0], angle: 0};
+    }
+
+    const w: number = Math.max(-1, Math.min(1, q.w/l));
+    const s: number = Math.sqrt(1 - w*w);
+
+    if (s < 0.0000000001) {
+      return {axis: [1, 0, 0], angle: 0};
+    }
+
+    return {
+      axis: [q.i/(l*s), q.j/(l*s), q.k/(l*s)],
+      angle: 2*Math.acos(w)
+    };
+  }
+
+  /**
+   * Convert a quaternion into Euler angles
+   *
+   * @param {QRecord} q 4-tuple representing the input quaternion (need not be unit)
+   *
+   * @param {string} order Euler-angle convention, one of EULER_ORDERS
+   *
+   * @param {string} multiplication (optional) Multiplication convention, one of MULTIPLICATIONS
+   * @default 'hamilton'
+   *
+   * @returns {Array<number>} 3-tuple of angles in radians, in the same order as the axes in the convention, so that
+   * fromEulerAngles() returns an equivalent rotation.  At gimbal lock, the third angle is arbitrarily set to zero.  An
+   * empty array is returned for an unsupported convention.
+   */
+  public static toEulerAngles(q: QRecord, order: string, multiplication: string = 'hamilton'): Array<number>
+  {
+    if (QCalc.EULER_ORDERS.indexOf(order) == -1) {
+      return [];
+    }
+
+    // the toolkit matrix is the transpose of the column-vector matrix, r, that the extraction is written for
+    const m: Array< Array<number> > = QCalc.toRotationMatrix(q, multiplication);
+    const r: Array< Array<number> > = [0, 1, 2].map( (row: number) => [m[0][row], m[1][row], m[2][row]] );
+
+    const a: number = 'XYZ'.indexOf( order.charAt(0) );
+    const b: number = 'XYZ'.indexOf( order.charAt(1) );
+    const c: number = 'XYZ'.indexOf( order.charAt(2) );
+
+    // +1 for cyclic (XYZ, YZX, ZXY) and -1 for anti-cyclic conventions
+    const p: number = (b - a + 3) % 3 == 1 ? 1 : -1;
+
+    const sb: number = Math.max(-1, Math.min(1, p*r[a][c]));
+
+    if (Math.abs(sb) > 0.9999999)
+    {
+      // gimbal lock; only the sum (or difference) of the first and third angles is defined
+      return [Math.atan2(p*r[c][b], r[b][b]), Math.asin(sb), 0];
+    }
+
+    return [
+      Math.atan2(-p*r[b][c], r[c][c]),
+      Math.asin(sb),
+      Math.atan2(-p*r[a][b], r[a][a])
+    ];
+  }
+
+  // the quotient in Q1 and its diagnostics, given the divisor tested by the toolkit
+  protected static __diagnosed(divisor: number): QResult
+  {
+    const result: QResult           = QCalc.__evaluated(divisor < QCalc.SINGULAR);
+    const diagnostics: QDiagnostics = result.diagnostics;
+
+    diagnostics.nearSingular = !diagnostics.singular && divisor < QCalc.NEAR_SINGULAR;
+    diagnostics.nonFinite    = diagnostics.nonFinite || isNaN(divisor);
+
+    return result;
+  }
+
+  // the value in Q1 and its diagnostics, given whether or not the operation is singular for its arguments
+  protected static __evaluated(singular: boolean): QResult
+  {
+    const values: Array<number>    = QCalc.Q1.toArray();
+    const diagnostics: QDiagnostics = QRecords.diagnostics();
+
+    diagnostics.singular  = singular;
+    diagnostics.nonFinite = values.some( (x: number) => isNaN(x) || !isFinite(x) );
+
+    return {q: new Q(values[0], values[1], values[2], values[3]), diagnostics: diagnostics};
+  }
+
+  protected static __lengthSq(q: QRecord): number
+  {
+    return q.w*q.w + q.i*q.i + q.j*q.j + q.k*q.k;
+  }
+
+  // the (Hamilton) rotation quaternion in Q1 as a Q in the multiplication convention
+  protected static __fromHamilton(multiplication: string): Q
+  {
+    if (multiplication == 'jpl') {
+      QCalc.Q1.conjugate();
+    }
+
+    const values: Array<number> = QCalc.Q1.toArray();
+
+    return new Q(values[0], values[1], values[2], values[3]);
+  }
+
+  // a rotation quaternion in the multiplication convention as a Hamilton quaternion
+  protected static __toHamilton(q: QRecord, multiplication: string): QRecord
+  {
+    return multiplication == 'jpl' ? new Q(q.w, -q.i, -q.j, -q.k) : q;
+  }
 }
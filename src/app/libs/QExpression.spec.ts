@@ -0,0 +1,210 @@
+import { QExpression, QExpressionContext, QExpressionError } from './QExpression';
+import { QCalc    } from './QCalc';
+import { QRecords } from './QRecords';
+import { Q        } from '../state/definitions/Q';
+
+// absolute tolerance of numeric comparisons
+const EPS: number = 1e-12;
+
+function expectQ(q: Q, expected: Array<number>, tol: number = EPS): void
+{
+  const actual: Array<number> = [q.w, q.i, q.j, q.k];
+
+  actual.forEach( (x: number, n: number) => {
+    if (!(Math.abs(x - expected[n]) <= tol)) {
+      fail('component ' + n + ' of [' + actual.join(', ') + '] differs from [' + expected.join(', ') + '] by more than ' + tol);
+    }
+  });
+}
+
+function values(q: Q): Array<number>
+{
+  return [q.w, q.i, q.j, q.k];
+}
+
+function context(multiplication: string = 'hamilton'): QExpressionContext
+{
+  return {
+    q1: new Q(1, 2, 3, 4),
+    q2: new Q(0.5, -1, 0, 2),
+    registers: {M1: new Q(0, 1, 1, 0)},
+    multiplication: multiplication,
+    diagnostics: QRecords.diagnostics()
+  };
+}
+
+// the error thrown by evaluating an expression
+function errorOf(expression: string, c: QExpressionContext = context()): QExpressionError
+{
+  try
+  {
+    QExpression.evaluate(expression, c);
+  }
+  catch (err)
+  {
+    return err;
+  }
+
+  fail("'" + expression + "' should not evaluate");
+
+  return null;
+}
+
+describe('QExpression precedence', () => {
+  it('should multiply and divide before adding and subtracting', () => {
+    expect( values(QExpression.evaluate('1 + 2 * 3', context())) ).toEqual([7, 0, 0, 0]);
+    expect( values(QExpression.evaluate('(1 + 2) * 3', context())) ).toEqual([9, 0, 0, 0]);
+    expect( values(QExpression.evaluate('1 - 6 / 3', context())) ).toEqual([-1, 0, 0, 0]);
+    expect( values(QExpression.evaluate('q1 + q2 * M1', context())) )
+      .toEqual( values(QCalc.add(new Q(1, 2, 3, 4), QCalc.multiply(new Q(0.5, -1, 0, 2), new Q(0, 1, 1, 0)))) );
+  });
+
+  it('should associate binary operators to the left', () => {
+    expect( values(QExpression.evaluate('8 - 4 - 2', context())) ).toEqual([2, 0, 0, 0]);
+    expect( values(QExpression.evaluate('8 / 4 / 2', context())) ).toEqual([1, 0, 0, 0]);
+    expect( values(QExpression.evaluate('i * j * j', context())) ).toEqual([0, -1, 0, 0]);
+  });
+
+  it('should raise to a power before multiplying and associate powers to the right', () => {
+    expectQ(QExpression.evaluate('2 * 3 ^ 2', context()), [18, 0, 0, 0]);
+    expectQ(QExpression.evaluate('(2 * 3) ^ 2', context()), [36, 0, 0, 0]);
+    expectQ(QExpression.evaluate('2 ^ 3 ^ 2', context()), [512, 0, 0, 0], 1e-9);
+    expectQ(QExpression.evaluate('(2 ^ 3) ^ 2', context()), [64, 0, 0, 0], 1e-10);
+  });
+
+  it('should raise a quaternion to a real power', () => {
+    expectQ(QExpression.evaluate('i ^ 2', context()), [-1, 0, 0, 0]);
+    expectQ(QExpression.evaluate('q1 ^ 2', context()), values(QCalc.multiply(new Q(1, 2, 3, 4), new Q(1, 2, 3, 4))), 1e-10);
+    expectQ(QExpression.evaluate('q1 ^ -1', context()), values(QCalc.inverse(new Q(1, 2, 3, 4)).q));
+    expectQ(QExpression.evaluate('q1 ^ 0.5', context()), values(QCalc.sqrt(new Q(1, 2, 3, 4)).q));
+  });
+
+  it('should diagnose a power as pow', () => {
+    const c: QExpressionContext = context();
+
+    QExpression.evaluate('q1 ^ 2 + 0 ^ 2', c);
+    expect(QRecords.raised(c.diagnostics)).toBe(false);
+
+    QExpression.evaluate('q1 + 0 ^ -1', c);
+    expect(c.diagnostics.singular).toBe(true);
+  });
+});
+
+describe('QExpression unary minus', () => {
+  it('should negate a factor', () => {
+    expectQ(QExpression.evaluate('-q1', context()), [-1, -2, -3, -4]);
+    expectQ(QExpression.evaluate('+q1', context()), [1, 2, 3, 4]);
+    expectQ(QExpression.evaluate('--2', context()), [2, 0, 0, 0]);
+    expectQ(QExpression.evaluate('3 - -2', context()), [5, 0, 0, 0]);
+    expectQ(QExpression.evaluate('-(1 + i)', context()), [-1, -1, 0, 0]);
+  });
+
+  it('should bind more tightly than multiplication but less tightly than a power', () => {
+    expectQ(QExpression.evaluate('-2 * 3', context()), [-6, 0, 0, 0]);
+    expectQ(QExpression.evaluate('2 * -3', context()), [-6, 0, 0, 0]);
+    expectQ(QExpression.evaluate('-2 ^ 2', context()), [-4, 0, 0, 0]);
+    expectQ(QExpression.evaluate('2 ^ -1', context()), [0.5, 0, 0, 0]);
+  });
+});
+
+describe('QExpression literals', () => {
+  it('should read imaginary numbers', () => {
+    expectQ(QExpression.evaluate('2i', context()), [0, 2, 0, 0]);
+    expectQ(QExpression.evaluate('-j', context()), [0, 0, -1, 0]);
+    expectQ(QExpression.evaluate('1.5k', context()), [0, 0, 0, 1.5]);
+    expectQ(QExpression.evaluate('2e1i', context()), [0, 20, 0, 0]);
+    expectQ(QExpression.evaluate('1 + 2i - 3j + 4k', context()), [1, 2, -3, 4]);
+  });
+
+  it('should read the imaginary suffix only when it ends the number', () => {
+    expect( errorOf('2 i').message ).toEqual("unexpected 'i'");
+    expect( errorOf('2in').message ).toEqual("unexpected 'in'");
+  });
+
+  it('should read bracketed quaternions', () => {
+    expect( values(QExpression.evaluate('[1, -2, 0.5, 2 * 3]', context())) ).toEqual([1, -2, 0.5, 6]);
+    expect( errorOf('[1, 2, 3]').message ).toEqual('a quaternion literal has four components, [w, i, j, k]');
+    expect( errorOf('[1, 2, 3, k]').message ).toEqual('k must be real');
+  });
+});
+
+describe('QExpression names and functions', () => {
+  it('should look up inputs, units and registers', () => {
+    expect( values(QExpression.evaluate('q1 + q2', context())) ).toEqual([1.5, 1, 3, 6]);
+    expect( values(QExpression.evaluate('M1', context())) ).toEqual([0, 1, 1, 0]);
+  });
+
+  it('should reject unknown names and registers', () => {
+    expect( errorOf('q3').message ).toEqual("unknown name 'q3'");
+    expect( errorOf('M1 + M2').message ).toEqual("unknown name 'M2'");
+    expect( errorOf('M1', {q1: new Q(1, 0, 0, 0), q2: new Q(1, 0, 0, 0), registers: {}}).message )
+      .toEqual("unknown name 'M1'");
+  });
+
+  it('should reject unknown functions and the wrong number of arguments', () => {
+    expect( errorOf('foo(q1)').message ).toEqual("unknown function 'foo'");
+    expect( errorOf('conj(q1, q2)').message ).toEqual('conj(q) expects 1 argument');
+    expect( errorOf('pow()').message ).toEqual('pow(q, t) expects 2 arguments');
+    expect( errorOf('slerp(q1, q2)').message ).toEqual('slerp(a, b, t) expects 3 arguments');
+  });
+
+  it('should require real parameters', () => {
+    expect( errorOf('pow(q1, i)').message ).toEqual('t must be real');
+    expect( errorOf('q1 ^ i').message ).toEqual('exponent must be real');
+  });
+});
+
+describe('QExpression errors', () => {
+  it('should be QExpressionErrors', () => {
+    const err: QExpressionError = errorOf('q1 +');
+
+    expect(err instanceof QExpressionError).toBe(true);
+    expect(err instanceof Error).toBe(true);
+    expect(err.name).toEqual('QExpressionError');
+  });
+
+  it('should report the position of a parse error', () => {
+    expect( errorOf('q1 + * q2').position ).toBe(5);
+    expect( errorOf('q1 $ q2').position ).toBe(3);
+    expect( errorOf('q1 $ q2').message ).toEqual("unexpected character '$'");
+    expect( errorOf('(q1 + q2').position ).toBe(8);
+    expect( errorOf('(q1 + q2').message ).toEqual("expected ')' but found end of expression");
+    expect( errorOf('q1 + ').position ).toBe(5);
+    expect( errorOf('q1 + ').message ).toEqual('unexpected end of expression');
+    expect( errorOf('q1 q2').position ).toBe(3);
+    expect( errorOf('  [1, 2]').position ).toBe(2);
+  });
+
+  it('should report the position of an evaluation error', () => {
+    expect( errorOf('2 * q3').position ).toBe(4);
+    expect( errorOf('q1 + conj(q1, q2)').position ).toBe(5);
+    expect( errorOf('q1 ^ (1 + i)').position ).toBe(8);
+    expect( errorOf('nlerp(q1, q2, 2j)').position ).toBe(14);
+  });
+});
+
+describe('QExpression conventions', () => {
+  it('should multiply in the convention of the context', () => {
+    expect( values(QExpression.evaluate('i * j', context('hamilton'))) ).toEqual([0, 0, 0, 1]);
+    expect( values(QExpression.evaluate('i * j', context('jpl'))) ).toEqual([0, 0, 0, -1]);
+
+    expect( values(QExpression.evaluate('q1 * q2', context('jpl'))) )
+      .toEqual( values(QExpression.evaluate('q2 * q1', context('hamilton'))) );
+  });
+
+  it('should default to the hamilton convention', () => {
+    const c: QExpressionContext = {q1: new Q(1, 2, 3, 4), q2: new Q(0.5, -1, 0, 2), registers: {}};
+
+    expect( values(QExpression.evaluate('q1 * q2', c)) ).toEqual( values(QExpression.evaluate('q1 * q2', context())) );
+  });
+
+  it('should divide in the convention of the context', () => {
+    QCalc.MULTIPLICATIONS.forEach( (multiplication: string) =>
+    {
+      expectQ(QExpression.evaluate('(q1 / q2) * q2', context(multiplication)), [1, 2, 3, 4]);
+    });
+
+    expect( values(QExpression.evaluate('q1 / q2', context('jpl'))) )
+      .not.toEqual( values(QExpression.evaluate('q1 / q2', context('hamilton'))) );
+  });
+});
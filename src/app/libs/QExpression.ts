@@ -0,0 +1,536 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Parse and evaluate quaternion expressions such as (q1 * q2) / conj(q1) + 2*M1 using QCalc.  The grammar is
+ *
+ * expression := term { ('+' | '-') term }
+ *
+ * term       := factor { ('*' | '/') factor }
+ *
+ * factor     := ('+' | '-') factor | power
+ *
+ * power      := primary [ '^' factor ]
+ *
+ * primary    := number | number ('i' | 'j' | 'k') | name | name '(' expression { ',' expression } ')' |
+ *               '[' expression ',' expression ',' expression ',' expression ']' | '(' expression ')'
+ *
+ * Every value is a quaternion; a number is a real quaternion.  Names are the calculator inputs, q1 and q2, the
+ * imaginary units, i, j, and k, and memory registers (by name).  A bracketed literal is [w, i, j, k] with real
+ * components.  Supported functions are listed in QExpression.FUNCTIONS.
+ *
+ * The exponent of '^' must be real, i.e. q^2 is pow(q, 2).  It binds more tightly than unary minus and associates to
+ * the right, so that -q^2 is -(q^2) and q^2^3 is q^(2^3).
+ *
+ * Parse and evaluation errors are thrown as a QExpressionError that contains the (zero-based) position of the error in
+ * the expression.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { QCalc, QResult } from "./QCalc";
+import { QRecords       } from "./QRecords";
+import { Q              } from "../state/definitions/Q";
+import { QRecord        } from "../state/definitions/QRecord";
+import { QDiagnostics   } from "../state/definitions/QDiagnostics";
+
+import { QRegisters } from "../state/definitions/QMemory";
+
+/**
+ * Values of the names that may appear in an expression
+ */
+export interface QExpressionContext
+{
+  q1: QRecord;
+
+  q2: QRecord;
+
+  registers: QRegisters;
+
+  // multiplication convention of '*' and '/', 'hamilton' (default) or 'jpl'
+  multiplication?: string;
+
+  // optional diagnostics that are raised by any division, inversion, or transcendental function in the expression
+  diagnostics?: QDiagnostics;
+}
+
+/**
+ * A node of a parsed expression
+ */
+export interface QNode
+{
+  // 'number', 'name', 'call', 'literal', 'negate', or an operator, '+', '-', '*', '/', '^'
+  kind: string;
+
+  // position of the node in the expression
+  position: number;
+
+  // value of a number node
+  value?: Q;
+
+  // name of a name or call node
+  name?: string;
+
+  // operands of an operator, function arguments, or the components of a literal
+  args?: Array<QNode>;
+}
+
+/**
+ * A function that may be called in an expression
+ */
+export interface QFunction
+{
+  // number of arguments
+  arity: number;
+
+  // description, i.e. 'slerp(a, b, t)'
+  usage: string;
+
+  // evaluate the function with arguments, the nodes of those arguments (for error reporting), and the context
+  apply: (args: Array<Q>, nodes: Array<QNode>, context: QExpressionContext) => Q;
+}
+
+/**
+ * An error in an expression, located at a (zero-based) position
+ */
+export class QExpressionError extends Error
+{
+  constructor(message: string, public position: number)
+  {
+    super(message);
+
+    // restore the prototype chain, which is broken when extending Error with an ES5 target
+    Object.setPrototypeOf(this, QExpressionError.prototype);
+
+    this.name = 'QExpressionError';
+  }
+}
+
+// a single token of an expression; type is 'number', 'imaginary', 'name', 'op', or 'end'
+interface QToken
+{
+  type: string;
+
+  text: string;
+
+  position: number;
+}
+
+export class QExpression
+{
+  /**
+   * Functions available in expressions, by name
+   */
+  public static readonly FUNCTIONS: {[name: string]: QFunction} = {
+    conj: {arity: 1, usage: 'conj(q)', apply: (a: Array<Q>) => QCalc.conjugate(a[0])},
+    inv: {arity: 1, usage: 'inv(q)',
+      apply: (a: Array<Q>, n: Array<QNode>, c: QExpressionContext) => QExpression.__diagnose(QCalc.inverse(a[0]), c)},
+    unit: {arity: 1, usage: 'unit(q)', apply: (a: Array<Q>) => QCalc.normalize(a[0])},
+    norm: {arity: 1, usage: 'norm(q)', apply: (a: Array<Q>) => new Q(QCalc.norm(a[0]), 0, 0, 0)},
+    exp: {arity: 1, usage: 'exp(q)',
+      apply: (a: Array<Q>, n: Array<QNode>, c: QExpressionContext) => QExpression.__diagnose(QCalc.exp(a[0]), c)},
+    log: {arity: 1, usage: 'log(q)',
+      apply: (a: Array<Q>, n: Array<QNode>, c: QExpressionContext) => QExpression.__diagnose(QCalc.log(a[0]), c)},
+    sqrt: {arity: 1, usage: 'sqrt(q)',
+      apply: (a: Array<Q>, n: Array<QNode>, c: QExpressionContext) => QExpression.__diagnose(QCalc.sqrt(a[0]), c)},
+
+    pow: {arity: 2, usage: 'pow(q, t)',
+      apply: (a: Array<Q>, n: Array<QNode>, c: QExpressionContext) =>
+        QExpression.__diagnose(QCalc.pow(a[0], QExpression.__real(a[1], n[1], 't')), c)},
+
+    slerp: {arity: 3, usage: 'slerp(a, b, t)',
+      apply: (a: Array<Q>, n: Array<QNode>) => QCalc.slerp(a[0], a[1], QExpression.__real(a[2], n[2], 't'))},
+
+    nlerp: {arity: 3, usage: 'nlerp(a, b, t)',
+      apply: (a: Array<Q>, n: Array<QNode>) => QCalc.nlerp(a[0], a[1], QExpression.__real(a[2], n[2], 't'))}
+  };
+
+  protected static OPERATORS: string = '+-*/^()[],';
+
+  constructor()
+  {
+    // empty
+  }
+
+  /**
+   * Parse an expression
+   *
+   * @param {string} expression Expression text
+   *
+   * @returns {QNode} Root of the parsed expression
+   *
+   * @throws {QExpressionError} If the expression is not well formed
+   */
+  public static parse(expression: string): QNode
+  {
+    const tokens: Array<QToken> = QExpression.__tokenize(expression);
+    const state: {index: number} = {index: 0};
+
+    const node: QNode = QExpression.__expression(tokens, state);
+    const token: QToken = tokens[state.index];
+
+    if (token.type != 'end') {
+      throw new QExpressionError("unexpected '" + token.text + "'", token.position);
+    }
+
+    return node;
+  }
+
+  /**
+   * Evaluate an expression
+   *
+   * @param {string | QNode} expression Expression text or a previously parsed expression
+   *
+   * @param {QExpressionContext} context Values of the inputs and memory registers, and optional diagnostics that are
+   * raised by the evaluation
+   *
+   * @returns {Q} Value of the expression
+   *
+   * @throws {QExpressionError} If the expression is not well formed or refers to an unknown name or function
+   */
+  public static evaluate(expression: string | QNode, context: QExpressionContext): Q
+  {
+    const node: QNode = typeof expression === 'string' ? QExpression.parse(expression) : expression;
+
+    return QExpression.__evaluate(node, context);
+  }
+
+  protected static __evaluate(node: QNode, context: QExpressionContext): Q
+  {
+    let args: Array<Q>;
+
+    switch (node.kind)
+    {
+      case 'number':
+        return node.value.clone();
+
+      case 'name':
+        return QExpression.__lookup(node, context);
+
+      case 'negate':
+        return QCalc.multiplyByScalar( QExpression.__evaluate(node.args[0], context), -1 );
+
+      case '+':
+      case '-':
+      case '*':
+      case '/':
+        args = node.args.map( (arg: QNode) => QExpression.__evaluate(arg, context) );
+
+        if (node.kind == '+') return QCalc.add(args[0], args[1]);
+        if (node.kind == '-') return QCalc.subtract(args[0], args[1]);
+        if (node.kind == '*') return QCalc.multiply(args[0], args[1], context.multiplication);
+
+        return QExpression.__diagnose(QCalc.divide(args[0], args[1], context.multiplication), context);
+
+      case '^':
+        args = node.args.map( (arg: QNode) => QExpression.__evaluate(arg, context) );
+
+        return QExpression.__diagnose( QCalc.pow(args[0], QExpression.__real(args[1], node.args[1], 'exponent')), context );
+
+      case 'literal':
+        args = node.args.map( (arg: QNode) => QExpression.__evaluate(arg, context) );
+
+        return new Q( QExpression.__real(args[0], node.args[0], 'w'), QExpression.__real(args[1], node.args[1], 'i'),
+                      QExpression.__real(args[2], node.args[2], 'j'), QExpression.__real(args[3], node.args[3], 'k') );
+
+      case 'call':
+        const f: QFunction = QExpression.FUNCTIONS.hasOwnProperty(node.name) ? QExpression.FUNCTIONS[node.name] : null;
+
+        if (f == null) {
+          throw new QExpressionError("unknown function '" + node.name + "'", node.position);
+        }
+
+        if (node.args.length != f.arity) {
+          throw new QExpressionError(f.usage + ' expects ' + f.arity + ' argument' + (f.arity == 1 ? '' : 's'), node.position);
+        }
+
+        args = node.args.map( (arg: QNode) => QExpression.__evaluate(arg, context) );
+
+        return f.apply(args, node.args, context);
+
+      default:
+        throw new QExpressionError("unknown expression '" + node.kind + "'", node.position);
+    }
+  }
+
+  // raise the diagnostics of an intermediate result in the context
+  protected static __diagnose(result: QResult, context: QExpressionContext): Q
+  {
+    const diagnostics: QDiagnostics = context.diagnostics;
+
+    if (diagnostics)
+    {
+      diagnostics.singular     = diagnostics.singular || result.diagnostics.singular;
+      diagnostics.nearSingular = diagnostics.nearSingular || result.diagnostics.nearSingular;
+      diagnostics.nonFinite    = diagnostics.nonFinite || result.diagnostics.nonFinite;
+    }
+
+    return result.q;
+  }
+
+  // value of a named input, imaginary unit, or memory register
+  protected static __lookup(node: QNode, context: QExpressionContext): Q
+  {
+    switch (node.name)
+    {
+      case 'q1':
+        return QRecords.toQ(context.q1);
+
+      case 'q2':
+        return QRecords.toQ(context.q2);
+
+      case 'i':
+        return new Q(0, 1, 0, 0);
+
+      case 'j':
+        return new Q(0, 0, 1, 0);
+
+      case 'k':
+        return new Q(0, 0, 0, 1);
+    }
+
+    if (context.registers && context.registers.hasOwnProperty(node.name)) {
+      return QRecords.toQ(context.registers[node.name]);
+    }
+
+    throw new QExpressionError("unknown name '" + node.name + "'", node.position);
+  }
+
+  // real part of a value that must be real
+  protected static __real(q: Q, node: QNode, what: string): number
+  {
+    if (q.i != 0 || q.j != 0 || q.k != 0) {
+      throw new QExpressionError(what + ' must be real', node.position);
+    }
+
+    return q.w;
+  }
+
+  // expression := term { ('+' | '-') term }
+  protected static __expression(tokens: Array<QToken>, state: {index: number}): QNode
+  {
+    let node: QNode = QExpression.__term(tokens, state);
+    let token: QToken;
+
+    while ( (token = tokens[state.index]).type == 'op' && (token.text == '+' || token.text == '-') )
+    {
+      state.index++;
+      node = {kind: token.text, position: token.position, args: [node, QExpression.__term(tokens, state)]};
+    }
+
+    return node;
+  }
+
+  // term := factor { ('*' | '/') factor }
+  protected static __term(tokens: Array<QToken>, state: {index: number}): QNode
+  {
+    let node: QNode = QExpression.__factor(tokens, state);
+    let token: QToken;
+
+    while ( (token = tokens[state.index]).type == 'op' && (token.text == '*' || token.text == '/') )
+    {
+      state.index++;
+      node = {kind: token.text, position: token.position, args: [node, QExpression.__factor(tokens, state)]};
+    }
+
+    return node;
+  }
+
+  // factor := ('+' | '-') factor | power
+  protected static __factor(tokens: Array<QToken>, state: {index: number}): QNode
+  {
+    const token: QToken = tokens[state.index];
+
+    if (token.type == 'op' && (token.text == '+' || token.text == '-'))
+    {
+      state.index++;
+
+      const arg: QNode = QExpression.__factor(tokens, state);
+
+      return token.text == '+' ? arg : {kind: 'negate', position: token.position, args: [arg]};
+    }
+
+    return QExpression.__power(tokens, state);
+  }
+
+  // power := primary [ '^' factor ], which is right-associative since the exponent is itself a factor
+  protected static __power(tokens: Array<QToken>, state: {index: number}): QNode
+  {
+    const node: QNode   = QExpression.__primary(tokens, state);
+    const token: QToken = tokens[state.index];
+
+    if (token.type != 'op' || token.text != '^') {
+      return node;
+    }
+
+    state.index++;
+    return {kind: '^', position: token.position, args: [node, QExpression.__factor(tokens, state)]};
+  }
+
+  protected static __primary(tokens: Array<QToken>, state: {index: number}): QNode
+  {
+    const token: QToken = tokens[state.index];
+    let node: QNode;
+
+    switch (token.type)
+    {
+      case 'number':
+        state.index++;
+        return {kind: 'number', position: token.position, value: new Q(+token.text, 0, 0, 0)};
+
+      case 'imaginary':
+        state.index++;
+
+        const x: number  = +token.text.slice(0, -1);
+        const unit: string = token.text.slice(-1);
+
+        return {kind: 'number', position: token.position, value: new Q(0, unit == 'i' ? x : 0, unit == 'j' ? x : 0, unit == 'k' ? x : 0)};
+
+      case 'name':
+        state.index++;
+
+        if (tokens[state.index].text != '(') {
+          return {kind: 'name', position: token.position, name: token.text};
+        }
+
+        state.index++;
+        return {kind: 'call', position: token.position, name: token.text, args: QExpression.__list(tokens, state, ')')};
+
+      case 'op':
+        if (token.text == '(')
+        {
+          state.index++;
+          node = QExpression.__expression(tokens, state);
+
+          QExpression.__expect(tokens, state, ')');
+          return node;
+        }
+
+        if (token.text == '[')
+        {
+          state.index++;
+          node = {kind: 'literal', position: token.position, args: QExpression.__list(tokens, state, ']')};
+
+          if (node.args.length != 4) {
+            throw new QExpressionError('a quaternion literal has four components, [w, i, j, k]', token.position);
+          }
+
+          return node;
+        }
+      break;
+
+      case 'end':
+        throw new QExpressionError('unexpected end of expression', token.position);
+    }
+
+    throw new QExpressionError("unexpected '" + token.text + "'", token.position);
+  }
+
+  // comma-separated expressions up to and including the closing token
+  protected static __list(tokens: Array<QToken>, state: {index: number}, close: string): Array<QNode>
+  {
+    const list: Array<QNode> = new Array<QNode>();
+
+    if (tokens[state.index].text == close)
+    {
+      state.index++;
+      return list;
+    }
+
+    list.push( QExpression.__expression(tokens, state) );
+
+    while (tokens[state.index].text == ',')
+    {
+      state.index++;
+      list.push( QExpression.__expression(tokens, state) );
+    }
+
+    QExpression.__expect(tokens, state, close);
+
+    return list;
+  }
+
+  protected static __expect(tokens: Array<QToken>, state: {index: number}, text: string): void
+  {
+    const token: QToken = tokens[state.index];
+
+    if (token.text != text)
+    {
+      const found: string = token.type == 'end' ? 'end of expression' : "'" + token.text + "'";
+      throw new QExpressionError("expected '" + text + "' but found " + found, token.position);
+    }
+
+    state.index++;
+  }
+
+  protected static __tokenize(expression: string): Array<QToken>
+  {
+    const tokens: Array<QToken> = new Array<QToken>();
+    const number: RegExp        = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/;
+    const name: RegExp          = /^[A-Za-z_][A-Za-z0-9_]*/;
+
+    let position: number = 0;
+    let match: RegExpExecArray;
+    let rest: string;
+
+    while (position < expression.length)
+    {
+      const c: string = expression.charAt(position);
+
+      if (/\s/.test(c))
+      {
+        position++;
+        continue;
+      }
+
+      rest = expression.substr(position);
+
+      if ( (match = number.exec(rest)) !== null )
+      {
+        // a number followed directly by a single i, j, or k is imaginary, i.e. 2i
+        const suffix: RegExpExecArray = /^[ijk](?![A-Za-z0-9_])/.exec( rest.substr(match[0].length) );
+
+        if (suffix !== null) {
+          tokens.push( {type: 'imaginary', text: match[0] + suffix[0], position: position} );
+        } else {
+          tokens.push( {type: 'number', text: match[0], position: position} );
+        }
+
+        position += tokens[tokens.length-1].text.length;
+      }
+      else if ( (match = name.exec(rest)) !== null )
+      {
+        tokens.push( {type: 'name', text: match[0], position: position} );
+        position += match[0].length;
+      }
+      else if (QExpression.OPERATORS.indexOf(c) != -1)
+      {
+        tokens.push( {type: 'op', text: c, position: position} );
+        position++;
+      }
+      else
+      {
+        throw new QExpressionError("unexpected character '" + c + "'", position);
+      }
+    }
+
+    tokens.push( {type: 'end', text: '', position: expression.length} );
+
+    return tokens;
+  }
+}
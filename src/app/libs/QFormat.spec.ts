@@ -0,0 +1,62 @@
+import { QFormat } from './QFormat';
+import { Q       } from '../state/definitions/Q';
+
+function values(q: Q): Array<number>
+{
+  return [q.w, q.i, q.j, q.k];
+}
+
+describe('QFormat parse', () => {
+  it('should parse algebraic quaternions', () => {
+    expect( values(QFormat.parse('1 - 2i + 0.5j + 3k')) ).toEqual([1, -2, 0.5, 3]);
+    expect( values(QFormat.parse('3k + 1 - 2*i')) ).toEqual([1, -2, 0, 3]);
+    expect( values(QFormat.parse('-j')) ).toEqual([0, 0, -1, 0]);
+    expect( values(QFormat.parse('2.5')) ).toEqual([2.5, 0, 0, 0]);
+    expect( values(QFormat.parse('1e-3 + 2E2I')) ).toEqual([0.001, 200, 0, 0]);
+    expect( values(QFormat.parse('i + i')) ).toEqual([0, 2, 0, 0]);
+  });
+
+  it('should parse w-first arrays and w-last vectors', () => {
+    expect( values(QFormat.parse('[1, -2, 0.5, 3]')) ).toEqual([1, -2, 0.5, 3]);
+    expect( values(QFormat.parse(' (-2, 0.5, 3, 1) ')) ).toEqual([1, -2, 0.5, 3]);
+  });
+
+  it('should parse JSON objects with either naming of the components', () => {
+    expect( values(QFormat.parse('{"x": -2, "y": 0.5, "z": 3, "w": 1}')) ).toEqual([1, -2, 0.5, 3]);
+    expect( values(QFormat.parse('{"w": 1, "k": 3}')) ).toEqual([1, 0, 0, 3]);
+  });
+
+  it('should reject malformed text', () => {
+    expect( () => QFormat.parse('') ).toThrowError('no quaternion to parse');
+    expect( () => QFormat.parse('1 2i') ).toThrowError("unexpected '2'");
+    expect( () => QFormat.parse('1 + q') ).toThrowError("unexpected '+'");
+    expect( () => QFormat.parse('[1, 2, 3]') ).toThrowError('expected four components, found 3');
+    expect( () => QFormat.parse('[1, 2, x, 4]') ).toThrowError("component 3 'x' is not a finite number");
+    expect( () => QFormat.parse('(1, 2, 3, 4') ).toThrowError("missing ')'");
+    expect( () => QFormat.parse('{"w": 1, "v": 2}') ).toThrowError("unknown key 'v'");
+    expect( () => QFormat.parse('{"w": "1"}') ).toThrowError("'w' is not a finite number");
+    expect( () => QFormat.parse('{w: 1}') ).toThrowError('invalid JSON');
+  });
+});
+
+describe('QFormat format', () => {
+  const q: Q = new Q(1, -2, 0.5, 3);
+
+  it('should format in each style', () => {
+    expect( QFormat.format(q) ).toEqual('1 - 2i + 0.5j + 3k');
+    expect( QFormat.format(q, 'array') ).toEqual('[1, -2, 0.5, 3]');
+    expect( QFormat.format(q, 'vector') ).toEqual('(-2, 0.5, 3, 1)');
+    expect( QFormat.format(q, 'json') ).toEqual('{"x":-2,"y":0.5,"z":3,"w":1}');
+  });
+
+  it('should list array components in the component order', () => {
+    expect( QFormat.format(q, 'array', 'xyzw') ).toEqual('[-2, 0.5, 3, 1]');
+    expect( values(QFormat.parse('[-2, 0.5, 3, 1]', 'xyzw')) ).toEqual([1, -2, 0.5, 3]);
+  });
+
+  it('should parse back to the same quaternion', () => {
+    const r: Q = new Q(-0.1, 1e-17, -0, 1/3);
+
+    QFormat.FORMATS.forEach( (f) => expect( values(QFormat.parse(QFormat.format(r, f.value))) ).toEqual([-0.1, 1e-17, 0, 1/3]) );
+  });
+});
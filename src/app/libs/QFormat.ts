@@ -0,0 +1,259 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Parse a quaternion from, and format a quaternion to, a single line of text.  Four styles are supported,
+ *
+ * algebraic - 1 - 2i + 0.5j + 3k (terms in any order; a missing term is zero and a bare unit, i.e. -j, is +/- 1)
+ *
+ * array     - [w, x, y, z], or [x, y, z, w] in the 'xyzw' component order
+ *
+ * vector    - (x, y, z, w), the real part last as used by most game and graphics engines
+ *
+ * json      - {"x": 0, "y": 0, "z": 0, "w": 1}; keys may also be w, i, j, k and missing keys are zero
+ *
+ * Parse errors are thrown as an Error whose message describes the problem.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { Q       } from "../state/definitions/Q";
+import { QRecord } from "../state/definitions/QRecord";
+
+/**
+ * A text style of a quaternion
+ */
+export interface QTextFormat
+{
+  value: string;
+
+  label: string;
+}
+
+export class QFormat
+{
+  /**
+   * Available text styles
+   */
+  public static readonly FORMATS: Array<QTextFormat> = [
+    {value: 'algebraic', label: 'w + xi + yj + zk'},
+    {value: 'array'    , label: '[ ] in component order'},
+    {value: 'vector'   , label: '(x, y, z, w)'},
+    {value: 'json'     , label: 'JSON'}
+  ];
+
+  // one term of an algebraic quaternion; sign, optional coefficient, optional '*', optional unit, separated by spaces
+  protected static TERM: RegExp = /^([+-])?\s*((?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)?\s*(?:\*\s*)?([ijk])?\s*/i;
+
+  // JSON keys and the component index they assign
+  protected static KEYS: {[key: string]: number} = {w: 0, i: 1, j: 2, k: 3, x: 1, y: 2, z: 3};
+
+  constructor()
+  {
+    // empty
+  }
+
+  /**
+   * Parse a quaternion from text in any of the supported styles; the style is inferred from the text
+   *
+   * @param {string} text Quaternion text, i.e. '1 - 2i + 0.5j + 3k', '[1, -2, 0.5, 3]', '(-2, 0.5, 3, 1)' or
+   * '{"w": 1, "x": -2, "y": 0.5, "z": 3}'
+   *
+   * @param {string} order (optional) Component order of the array style, 'wxyz' or 'xyzw'
+   * @default 'wxyz'
+   *
+   * @returns {Q} Parsed quaternion
+   *
+   * @throws {Error} If the text is not a quaternion in a supported style
+   */
+  public static parse(text: string, order: string = 'wxyz'): Q
+  {
+    const s: string = text !== undefined && text != null ? text.trim() : '';
+
+    if (s == '') {
+      throw new Error('no quaternion to parse');
+    }
+
+    switch (s.charAt(0))
+    {
+      case '{':
+        return QFormat.__fromJSON(s);
+
+      case '[':
+        return QFormat.__fromList(s, ']', order == 'xyzw');
+
+      case '(':
+        return QFormat.__fromList(s, ')', true);
+
+      default:
+        return QFormat.__fromAlgebraic(s);
+    }
+  }
+
+  /**
+   * Format a quaternion as text
+   *
+   * @param {QRecord} q Quaternion
+   *
+   * @param {string} format (optional) Text style, one of the values in QFormat.FORMATS
+   * @default 'algebraic'
+   *
+   * @param {string} order (optional) Component order of the array style, 'wxyz' or 'xyzw'
+   * @default 'wxyz'
+   *
+   * @returns {string} Text that is parsed back into the same quaternion by QFormat.parse (in the same order)
+   */
+  public static format(q: QRecord, format: string = 'algebraic', order: string = 'wxyz'): string
+  {
+    const w: number = QFormat.__zero(q.w);
+    const x: number = QFormat.__zero(q.i);
+    const y: number = QFormat.__zero(q.j);
+    const z: number = QFormat.__zero(q.k);
+
+    switch (format)
+    {
+      case 'array':
+        return '[' + (order == 'xyzw' ? [x, y, z, w] : [w, x, y, z]).join(', ') + ']';
+
+      case 'vector':
+        return '(' + [x, y, z, w].join(', ') + ')';
+
+      case 'json':
+        return JSON.stringify({x: x, y: y, z: z, w: w});
+
+      default:
+        return w.toString() + QFormat.__term(x, 'i') + QFormat.__term(y, 'j') + QFormat.__term(z, 'k');
+    }
+  }
+
+  // a delimited list of four numbers, w-first or w-last
+  protected static __fromList(s: string, close: string, wLast: boolean): Q
+  {
+    if (s.charAt(s.length-1) != close) {
+      throw new Error("missing '" + close + "'");
+    }
+
+    const items: Array<string> = s.substring(1, s.length-1).split(',');
+
+    if (items.length != 4) {
+      throw new Error('expected four components, found ' + items.length);
+    }
+
+    const v: Array<number> = items.map( (item: string, n: number) => QFormat.__number(item, 'component ' + (n+1)) );
+
+    return wLast ? new Q(v[3], v[0], v[1], v[2]) : new Q(v[0], v[1], v[2], v[3]);
+  }
+
+  // a JSON object with w, x, y, z or w, i, j, k keys
+  protected static __fromJSON(s: string): Q
+  {
+    let data: any;
+
+    try
+    {
+      data = JSON.parse(s);
+    }
+    catch (err)
+    {
+      throw new Error('invalid JSON');
+    }
+
+    if (data == null || typeof data !== 'object' || Array.isArray(data)) {
+      throw new Error('expected a JSON object');
+    }
+
+    const v: Array<number>    = [0, 0, 0, 0];
+    const keys: Array<string> = Object.keys(data);
+
+    if (keys.length == 0) {
+      throw new Error('no components in JSON object');
+    }
+
+    keys.forEach( (key: string) =>
+    {
+      const n: number = QFormat.KEYS[key.toLowerCase()];
+
+      if (n === undefined) {
+        throw new Error("unknown key '" + key + "'");
+      }
+
+      if (typeof data[key] !== 'number' || !isFinite(data[key])) {
+        throw new Error("'" + key + "' is not a finite number");
+      }
+
+      v[n] = data[key];
+    });
+
+    return new Q(v[0], v[1], v[2], v[3]);
+  }
+
+  // a sum of real and imaginary terms
+  protected static __fromAlgebraic(s: string): Q
+  {
+    const v: Array<number> = [0, 0, 0, 0];
+    let rest: string       = s;
+
+    while (rest.length > 0)
+    {
+      const m: RegExpExecArray = QFormat.TERM.exec(rest);
+
+      // a term requires a coefficient or a unit, and terms after the first require a sign
+      if (m[0] == '' || (m[2] === undefined && m[3] === undefined) ||
+         (m[1] === undefined && rest.length < s.length))
+      {
+        throw new Error("unexpected '" + rest.charAt(0) + "'");
+      }
+
+      const c: number = (m[1] == '-' ? -1 : 1) * (m[2] !== undefined ? +m[2] : 1);
+      const n: number = m[3] !== undefined ? ' ijk'.indexOf(m[3].toLowerCase()) : 0;
+
+      if (!isFinite(c)) {
+        throw new Error("'" + m[0].trim() + "' is not a finite number");
+      }
+
+      v[n] += c;
+      rest  = rest.substring(m[0].length);
+    }
+
+    return new Q(v[0], v[1], v[2], v[3]);
+  }
+
+  protected static __number(item: string, name: string): number
+  {
+    const s: string = item.trim();
+    const x: number = +s;
+
+    if (s == '' || isNaN(x) || !isFinite(x)) {
+      throw new Error(name + " '" + s + "' is not a finite number");
+    }
+
+    return x;
+  }
+
+  // signed imaginary term of an algebraic quaternion
+  protected static __term(x: number, unit: string): string
+  {
+    return (x < 0 ? ' - ' + (-x) : ' + ' + x) + unit;
+  }
+
+  // remove negative zero so that it is not displayed as '0' in one style and '-0' in another
+  protected static __zero(x: number): number
+  {
+    return x == 0 ? 0 : x;
+  }
+}
@@ -0,0 +1,62 @@
+import { QRecords        } from './QRecords';
+import { QCalc           } from './QCalc';
+import { TSMT$Quaternion } from './Quaternion';
+import { Q               } from '../state/definitions/Q';
+import { QRecord         } from '../state/definitions/QRecord';
+
+describe('QRecords adapters', () => {
+  it('should copy a Q into a plain record without its id', () => {
+    const r: QRecord = QRecords.from( new Q(1, -2, 0.5, 3, 'q1') );
+
+    expect(r).toEqual({w: 1, i: -2, j: 0.5, k: 3});
+    expect( Object.getPrototypeOf(r) ).toBe(Object.prototype);
+    expect( JSON.parse(JSON.stringify(r)) ).toEqual(r);
+  });
+
+  it('should convert records to and from the math layer', () => {
+    const r: QRecord = QRecords.create(0.5, 0.5, -0.5, 0.5);
+    const q: Q       = QRecords.toQ(r, 'q2');
+
+    expect([q.w, q.i, q.j, q.k]).toEqual([0.5, 0.5, -0.5, 0.5]);
+    expect(q.id).toBe('q2');
+
+    const t: TSMT$Quaternion = QRecords.toToolkit(r);
+    expect( t.toArray() ).toEqual([0.5, 0.5, -0.5, 0.5]);
+
+    t.conjugate();
+    expect( QRecords.fromToolkit(t) ).toEqual( QRecords.from(QCalc.conjugate(r)) );
+  });
+
+  it('should compare records by value', () => {
+    expect( QRecords.equals(QRecords.create(1, 2, 3, 4), new Q(1, 2, 3, 4)) ).toBe(true);
+    expect( QRecords.equals(QRecords.create(1, 2, 3, 4), QRecords.create(1, 2, 3, -4)) ).toBe(false);
+    expect( QRecords.equals(null, QRecords.create(1, 0, 0, 0)) ).toBe(false);
+    expect( QRecords.equals(null, null) ).toBe(true);
+  });
+});
+
+describe('QRecords state checks', () => {
+  it('should deep-freeze a value', () => {
+    const state: any = QRecords.freeze( {inputs: QRecords.inputs(), tape: {entries: [{q1: QRecords.create(1, 0, 0, 0)}]}} );
+
+    expect( Object.isFrozen(state.inputs.q1) ).toBe(true);
+    expect( Object.isFrozen(state.tape.entries) ).toBe(true);
+    expect( () => state.inputs.q1.w = 2 ).toThrow();
+    expect( () => state.tape.entries.push({}) ).toThrow();
+  });
+
+  it('should accept plain data', () => {
+    expect( QRecords.unserializable({inputs: QRecords.inputs(), list: [1, 'a', true, null]}) ).toBe('');
+  });
+
+  it('should locate the first part that does not serialize', () => {
+    const inputs: any = QRecords.inputs();
+
+    inputs.q2 = new Q(1, 0, 0, 0);
+    expect( QRecords.unserializable({inputs: inputs}) ).toBe('state.inputs.q2 is an instance of Q');
+
+    expect( QRecords.unserializable({entries: [{t: NaN}]}) ).toBe('state.entries[0].t is NaN');
+    expect( QRecords.unserializable({error: undefined}) ).toBe('state.error is undefined');
+    expect( QRecords.unserializable({f: () => 0}) ).toBe('state.f is function');
+  });
+});
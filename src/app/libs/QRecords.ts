@@ -0,0 +1,256 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Adapters between the plain quaternion records of the global store and the math layer (Q and TSMT$Quaternion), along
+ * with default records and the checks applied to each new state of the store.  A record is never modified once it is
+ * in the store; compute with a Q or a toolkit quaternion and convert the result back to a record.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import {TSMT$Quaternion} from "./Quaternion";
+import { Q             } from "../state/definitions/Q";
+import { QRecord       } from "../state/definitions/QRecord";
+import { QInputs       } from "../state/definitions/QInputs";
+import { QDiagnostics  } from "../state/definitions/QDiagnostics";
+
+export class QRecords
+{
+  constructor()
+  {
+    // empty
+  }
+
+  /**
+   * Create a quaternion record
+   *
+   * @param {number} w Real part of the quaternion
+   *
+   * @param {number} i i-component of the quaternion
+   *
+   * @param {number} j j-component of the quaternion
+   *
+   * @param {number} k k-component of the quaternion
+   *
+   * @returns {QRecord}
+   */
+  public static create(w: number, i: number, j: number, k: number): QRecord
+  {
+    return {w: w, i: i, j: j, k: k};
+  }
+
+  /**
+   * Copy any quaternion with named components (a Q or another record) into a plain record
+   *
+   * @param {QRecord} q Quaternion
+   *
+   * @returns {QRecord} Record with the components of q and nothing else (a Q's id is not copied)
+   */
+  public static from(q: QRecord): QRecord
+  {
+    return {w: q.w, i: q.i, j: q.j, k: q.k};
+  }
+
+  /**
+   * Convert a record to a Q
+   *
+   * @param {QRecord} r Quaternion record
+   *
+   * @param {string} id (optional) id of the Q
+   *
+   * @returns {Q}
+   */
+  public static toQ(r: QRecord, id?: string): Q
+  {
+    return new Q(r.w, r.i, r.j, r.k, id);
+  }
+
+  /**
+   * Convert a record to a Typescript Math Toolkit quaternion
+   *
+   * @param {QRecord} r Quaternion record
+   *
+   * @returns {TSMT$Quaternion}
+   */
+  public static toToolkit(r: QRecord): TSMT$Quaternion
+  {
+    const q: TSMT$Quaternion = new TSMT$Quaternion();
+    q.fromArray(r.w, r.i, r.j, r.k);
+
+    return q;
+  }
+
+  /**
+   * Convert a Typescript Math Toolkit quaternion to a record
+   *
+   * @param {TSMT$Quaternion} q Toolkit quaternion
+   *
+   * @returns {QRecord}
+   */
+  public static fromToolkit(q: TSMT$Quaternion): QRecord
+  {
+    const values: Array<number> = q.toArray();
+
+    return {w: values[0], i: values[1], j: values[2], k: values[3]};
+  }
+
+  /**
+   * Compare two quaternions by value
+   *
+   * @param {QRecord} a First quaternion
+   *
+   * @param {QRecord} b Second quaternion
+   *
+   * @returns {boolean} True if the components of a and b are equal (or neither is defined)
+   */
+  public static equals(a: QRecord, b: QRecord): boolean
+  {
+    if (!a || !b) {
+      return a === b;
+    }
+
+    return a.w == b.w && a.i == b.i && a.j == b.j && a.k == b.k;
+  }
+
+  /**
+   * Is a value a quaternion record (or a Q)?
+   *
+   * @param {any} value Value
+   *
+   * @returns {boolean} True if the value has numeric w, i, j, and k components
+   */
+  public static isRecord(value: any): boolean
+  {
+    return value != null && typeof value === 'object' && typeof value.w === 'number' && typeof value.i === 'number' &&
+           typeof value.j === 'number' && typeof value.k === 'number';
+  }
+
+  /**
+   * Access default inputs, which are all-zero quaternions with no operation
+   *
+   * @returns {QInputs}
+   */
+  public static inputs(): QInputs
+  {
+    return {
+      q1: {w: 0, i: 0, j: 0, k: 0},
+      q2: {w: 0, i: 0, j: 0, k: 0},
+      result: {w: 0, i: 0, j: 0, k: 0},
+      scalar: 1,
+      t: 0.5,
+      op: 'none',
+      operand: '',
+      expression: '',
+      diagnostics: QRecords.diagnostics(),
+      action: 'none'
+    };
+  }
+
+  /**
+   * Access diagnostics with no diagnostic raised
+   *
+   * @returns {QDiagnostics}
+   */
+  public static diagnostics(): QDiagnostics
+  {
+    return {singular: false, nearSingular: false, nonFinite: false};
+  }
+
+  /**
+   * Access whether or not any diagnostic is raised
+   *
+   * @param {QDiagnostics} d Diagnostics
+   *
+   * @returns {boolean} True if the result is singular, near-singular, or non-finite
+   */
+  public static raised(d: QDiagnostics): boolean
+  {
+    return !!d && (d.singular || d.nearSingular || d.nonFinite);
+  }
+
+  /**
+   * Deep-freeze a value so that any attempt to modify it (or anything it references) fails; strict-mode code throws
+   *
+   * @param {T} value Value
+   *
+   * @returns {T} The (now frozen) value
+   */
+  public static freeze<T>(value: T): T
+  {
+    if (value == null || typeof value !== 'object' || Object.isFrozen(value)) {
+      return value;
+    }
+
+    Object.freeze(value);
+    Object.keys(value).forEach( (key: string) => QRecords.freeze(value[key]) );
+
+    return value;
+  }
+
+  /**
+   * Find the first part of a value that is not plain, JSON-serializable data, i.e. a class instance, function,
+   * undefined or non-finite number
+   *
+   * @param {any} value Value
+   *
+   * @param {string} path (optional) Path of the value, used to name the offending part
+   * @default 'state'
+   *
+   * @returns {string} Path of the first part that does not serialize (with a description) or an empty string if the
+   * entire value serializes
+   */
+  public static unserializable(value: any, path: string = 'state'): string
+  {
+    switch (typeof value)
+    {
+      case 'string':
+      case 'boolean':
+        return '';
+
+      case 'number':
+        return isFinite(value) ? '' : path + ' is ' + value;
+
+      case 'object':
+        if (value == null) {
+          return '';
+        }
+
+        if (Array.isArray(value)) {
+          return QRecords.__first(value.map( (v: any, n: number) => QRecords.unserializable(v, path + '[' + n + ']') ));
+        }
+
+        const proto: any = Object.getPrototypeOf(value);
+        if (proto != null && proto !== Object.prototype) {
+          return path + ' is an instance of ' + (proto.constructor ? proto.constructor.name : 'a class');
+        }
+
+        return QRecords.__first(Object.keys(value).map( (key: string) => QRecords.unserializable(value[key], path + '.' + key) ));
+
+      default:
+        return path + ' is ' + (typeof value);
+    }
+  }
+
+  protected static __first(problems: Array<string>): string
+  {
+    const problem: string = problems.find( (p: string) => p != '' );
+
+    return problem !== undefined ? problem : '';
+  }
+}
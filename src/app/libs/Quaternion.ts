@@ -137,10 +137,10 @@
    public fromXRotation(angle: number): void
    {
      const a: number = isNaN(angle) ? 0.0 : 0.5*angle;
-     this._q[0]      = Math.sin(a);
-     this._q[1]      = 0;
+     this._q[0]      = Math.cos(a);
+     this._q[1]      = Math.sin(a);
      this._q[2]      = 0;
-     this._q[3]      = Math.cos(a);
+     this._q[3]      = 0;
    }
 
   /**
@@ -153,10 +153,10 @@
    public fromYRotation(angle: number): void
    {
      const a: number = isNaN(angle) ? 0.0 : 0.5*angle;
-     this._q[0]      = 0;
-     this._q[1]      = Math.sin(a);
-     this._q[2]      = 0;
-     this._q[3]      = Math.cos(a);
+     this._q[0]      = Math.cos(a);
+     this._q[1]      = 0;
+     this._q[2]      = Math.sin(a);
+     this._q[3]      = 0;
    }
 
   /**
@@ -169,10 +169,10 @@
    public fromZRotation(angle: number): void
    {
      const a: number = isNaN(angle) ? 0.0 : 0.5*angle;
-     this._q[0]      = 0;
+     this._q[0]      = Math.cos(a);
      this._q[1]      = 0;
-     this._q[2]      = Math.sin(a);
-     this._q[3]      = Math.cos(a);
+     this._q[2]      = 0;
+     this._q[3]      = Math.sin(a);
    }
 
   /**
@@ -180,7 +180,7 @@
    *
    * @param {Array<number>} axis 3D vector from origin to point in 3-space that defines a rotation axis
    *
-   * @param {number} angle Rotation angle in degrees
+   * @param {number} angle Rotation angle in radians
    *
    * @return Nothing - The current Quaternion has the specified rotation about the specified axis; there is no
    * error-checking for performance - the method returns 'something' even if inputs are partially invalid.
@@ -203,7 +203,8 @@
   /**
    * Compute the current Quaternion that is equivalent to the supplied 3x3 rotation matrix
    *
-   * @param {Array<Array<number>>} m Array of arrays that represents a 3x3 rotation matrix
+   * @param {Array<Array<number>>} m Array of arrays that represents a 3x3 rotation matrix in the same (row-vector)
+   * convention as that returned from toRotationMatrix()
    *
    * @returns {nothing}
    */
@@ -213,38 +214,42 @@
        return;
      }
 
-     // TODO - check trace of rotation matrix
-     let u: number;
-     let v: number;
-     let w: number;
+     const trace: number = m[0][0] + m[1][1] + m[2][2];
+     let s: number;
 
-     // u, v, and w are chosen so that u is the index of max. diagonal of m.  u v w are an even permutation of 0, 1, 2.
-     if( m[0][0] > m[1][1] && m[0][0] > m[2][2] )
+     // branch on the largest of w, x, y, z to avoid dividing by a small number
+     if (trace > 0)
      {
-       u = 0;
-       v = 1;
-       w = 2;
+       s          = 0.5 / Math.sqrt(trace + 1.0);
+       this._q[0] = 0.25 / s;
+       this._q[1] = (m[1][2] - m[2][1])*s;
+       this._q[2] = (m[2][0] - m[0][2])*s;
+       this._q[3] = (m[0][1] - m[1][0])*s;
      }
-     else if( m[1][1] > m[0][0] && m[1][1] > m[2][2] )
+     else if (m[0][0] > m[1][1] && m[0][0] > m[2][2])
      {
-       u = 1;
-       v = 2;
-       w = 0;
+       s          = 2.0 * Math.sqrt(1.0 + m[0][0] - m[1][1] - m[2][2]);
+       this._q[0] = (m[1][2] - m[2][1]) / s;
+       this._q[1] = 0.25*s;
+       this._q[2] = (m[0][1] + m[1][0]) / s;
+       this._q[3] = (m[0][2] + m[2][0]) / s;
+     }
+     else if (m[1][1] > m[2][2])
+     {
+       s          = 2.0 * Math.sqrt(1.0 + m[1][1] - m[0][0] - m[2][2]);
+       this._q[0] = (m[2][0] - m[0][2]) / s;
+       this._q[1] = (m[0][1] + m[1][0]) / s;
+       this._q[2] = 0.25*s;
+       this._q[3] = (m[1][2] + m[2][1]) / s;
      }
      else
      {
-       u = 2;
-       v = 0;
-       w = 1;
+       s          = 2.0 * Math.sqrt(1.0 + m[2][2] - m[0][0] - m[1][1]);
+       this._q[0] = (m[0][1] - m[1][0]) / s;
+       this._q[1] = (m[0][2] + m[2][0]) / s;
+       this._q[2] = (m[1][2] + m[2][1]) / s;
+       this._q[3] = 0.25*s;
      }
-
-     var r      = Math.sqrt(1 + m[u][u] - m[v][v] - m[w][w]);
-     this._q[u] = 0.5*r;
-
-     r          = 0.5/r;
-     this._q[v] = r*(m[v][u] + m[u][v]);
-     this._q[w] = r*(m[u][w] + m[w][u]);
-     this._q[3] = r*(m[v][w] - m[w][v]);
    }
 
   /**
@@ -610,10 +615,10 @@
      const l: number = q0*q0 + q1*q1 + q2*q2 + q3*q3;
      const d: number = Math.abs(l) < 0.0000000001 ? 1 : 1/l;
 
-     this._q[0] = -a*q0*d;
+     this._q[0] = a*q0*d;
      this._q[1] = -a*q1*d;
      this._q[2] = -a*q2*d;
-     this._q[3] = a*q3*d;
+     this._q[3] = -a*q3*d;
    }
 
   /**
@@ -631,10 +636,10 @@
      const l: number = q0*q0 + q1*q1 + q2*q2 + q3*q3;
      const d: number = Math.abs(l) < 0.0000000001 ? 1 : 1/l;
 
-     this._q[0] = -q0*d;
+     this._q[0] = q0*d;
      this._q[1] = -q1*d;
      this._q[2] = -q2*d;
-     this._q[3] = q3*d;
+     this._q[3] = -q3*d;
    }
 
   /**
@@ -650,6 +655,163 @@
      return q;
    }
 
+  /**
+   * Conjugate the current Quaternion
+   *
+   * @returns {nothing} The current Quaternion is overwritten by its conjugate, i.e. the imaginary part is negated
+   */
+   public conjugate(): void
+   {
+     this._q[1] = -this._q[1];
+     this._q[2] = -this._q[2];
+     this._q[3] = -this._q[3];
+   }
+
+  /**
+   * Exponentiate the current Quaternion
+   *
+   * @returns {nothing} The current Quaternion, q = a + v, is overwritten by exp(q) = e^a (cos|v| + v/|v| sin|v|).  A
+   * real Quaternion has the real exponential (with zero imaginary parts, even if e^a overflows).
+   */
+   public exp(): void
+   {
+     const s: number  = Math.sqrt( this._q[1]*this._q[1] + this._q[2]*this._q[2] + this._q[3]*this._q[3] );
+     const ea: number = Math.exp(this._q[0]);
+
+     // sin(s)/s, using its series near zero
+     const sinc: number = s < 0.0001 ? 1.0 - s*s/6.0 : Math.sin(s) / s;
+
+     this._q[0] = ea*Math.cos(s);
+
+     // zero imaginary parts are not scaled, since an overflowed e^a times zero is not a number
+     if (s > 0)
+     {
+       this._q[1] *= ea*sinc;
+       this._q[2] *= ea*sinc;
+       this._q[3] *= ea*sinc;
+     }
+   }
+
+  /**
+   * Natural logarithm of the current Quaternion
+   *
+   * @returns {nothing} The current Quaternion, q = a + v, is overwritten by the principal value of its logarithm,
+   * log(q) = ln|q| + v/|v| atan2(|v|, a).  A positive real Quaternion has the real logarithm; the logarithm of a negative
+   * real Quaternion is taken about the i axis, i.e. log(-1) = PI i.  The logarithm of zero is (-Infinity, 0, 0, 0).
+   */
+   public log(): void
+   {
+     const a: number = this._q[0];
+     const s: number = Math.sqrt( this._q[1]*this._q[1] + this._q[2]*this._q[2] + this._q[3]*this._q[3] );
+     const r: number = Math.sqrt(a*a + s*s);
+
+     this._q[0] = Math.log(r);
+
+     if (s > 0)
+     {
+       const f: number = Math.atan2(s, a) / s;
+
+       this._q[1] *= f;
+       this._q[2] *= f;
+       this._q[3] *= f;
+     }
+     else if (a < 0)
+     {
+       this._q[1] = Math.PI;
+     }
+   }
+
+  /**
+   * Raise the current Quaternion to a real power
+   *
+   * @param {number} t Exponent
+   *
+   * @returns {nothing} The current Quaternion, q = r (cos(phi) + u sin(phi)), is overwritten by
+   * q^t = r^t (cos(t phi) + u sin(t phi)), i.e. exp(t log(q)) computed in polar form.  A unit Quaternion remains unit.
+   * Zero raised to a positive power is zero, to the zero power is one, and to a negative power is (Infinity, 0, 0, 0).
+   */
+   public pow(t: number): void
+   {
+     const a: number = this._q[0];
+     const s: number = Math.sqrt( this._q[1]*this._q[1] + this._q[2]*this._q[2] + this._q[3]*this._q[3] );
+     const r: number = Math.sqrt(a*a + s*s);
+
+     if (r == 0)
+     {
+       this._q[0] = t > 0 ? 0 : (t == 0 ? 1 : Infinity);
+       return;
+     }
+
+     const rt: number  = Math.pow(r, t);
+     const phi: number = Math.atan2(s, a);
+
+     this._q[0] = rt*Math.cos(t*phi);
+
+     if (s > 0)
+     {
+       const f: number = rt*Math.sin(t*phi) / s;
+
+       this._q[1] *= f;
+       this._q[2] *= f;
+       this._q[3] *= f;
+     }
+     else if (a < 0)
+     {
+       // negative real; the axis is taken to be i, as with log()
+       this._q[1] = rt*Math.sin(t*phi);
+     }
+   }
+
+  /**
+   * Principal square root of the current Quaternion
+   *
+   * @returns {nothing} The current Quaternion, q = a + v, is overwritten by the root with non-negative real part,
+   * sqrt((|q| + a)/2) + v/|v| sqrt((|q| - a)/2).  The square root of a negative real Quaternion is taken about the i
+   * axis, i.e. sqrt(-4) = 2i.
+   */
+   public sqrt(): void
+   {
+     const a: number = this._q[0];
+     const s: number = Math.sqrt( this._q[1]*this._q[1] + this._q[2]*this._q[2] + this._q[3]*this._q[3] );
+     const r: number = Math.sqrt(a*a + s*s);
+
+     if (r == 0) {
+       return;
+     }
+
+     // compute the larger of the real and imaginary magnitudes directly and the other from w*m = s/2, which avoids
+     // cancellation in |q| - a (or |q| + a) when the quaternion is nearly real
+     if (a >= 0)
+     {
+       const w: number = Math.sqrt(0.5*(r + a));
+       const f: number = 0.5 / w;
+
+       this._q[0]  = w;
+       this._q[1] *= f;
+       this._q[2] *= f;
+       this._q[3] *= f;
+     }
+     else
+     {
+       const m: number = Math.sqrt(0.5*(r - a));
+
+       this._q[0] = 0.5*s / m;
+
+       if (s > 0)
+       {
+         const f: number = m / s;
+
+         this._q[1] *= f;
+         this._q[2] *= f;
+         this._q[3] *= f;
+       }
+       else
+       {
+         this._q[1] = m;
+       }
+     }
+   }
+
   /**
    * Compute the dot product with another quaternion
    *
@@ -671,7 +833,8 @@
    *
    * @param {number} t Interpolation parameter in [0,1]
    *
-   * @returns {TSMT$Quaternion} Slerp from current Quaternion, qa to input Quaternion, qb.
+   * @returns {TSMT$Quaternion} Slerp from current Quaternion, qa to input Quaternion, qb.  Both are presumed to be unit
+   * Quaternions.
    */
    public slerp( q: TSMT$Quaternion, _t: number ): TSMT$Quaternion
    {
@@ -681,26 +844,21 @@
      const qt: TSMT$Quaternion = this.clone();
 
      // make it look more like a formula you've seen in a book or online
-     let qaw: number = this._q[0];
-     let qax: number = this._q[2];
-     let qay: number = this._q[2];
-     let qaz: number = this._q[3];
+     const qaw: number = this._q[0];
+     const qax: number = this._q[1];
+     const qay: number = this._q[2];
+     const qaz: number = this._q[3];
 
-     let b: Array<number> = q.values;
-     let qbw: number      = b[0];
-     let qbx: number      = b[1];
-     let qby: number      = b[2];
-     let qbz: number      = b[3];
+     const b: Array<number> = q.values;
+     let qbw: number        = b[0];
+     let qbx: number        = b[1];
+     let qby: number        = b[2];
+     let qbz: number        = b[3];
 
      // cos of half-angle betwen quaternions
-     let ctheta: number = qax*qbx + qay*qby + qaz*qbz + qaw*qaw;
+     let ctheta: number = qax*qbx + qay*qby + qaz*qbz + qaw*qbw;
 
-     if (Math.abs(ctheta) >= 1.0)
-     {
-       qt.fromArray( qax, qay, qaz, qaw );
-       return qt;
-     }
-     else if (ctheta < 0)
+     if (ctheta < 0)
      {
        // avoid the 'long' route :)
        qbx = -qbx;
@@ -711,19 +869,26 @@
        ctheta = -ctheta;
      }
 
-     const halfTheta: number    = Math.acos(ctheta);
-     const sinHalfTheta: number = Math.sqrt(1.0 - ctheta*ctheta);
+     const halfTheta: number    = Math.acos( Math.min(ctheta, 1.0) );
+     const sinHalfTheta: number = Math.sqrt( Math.max(0.0, 1.0 - ctheta*ctheta) );
+
+     let rA: number;
+     let rB: number;
 
      if( Math.abs(sinHalfTheta) < 0.001 )
-       qt.fromArray( qax*0.5 + qbx*0.5, qay*0.5 + qby*0.5, qaz*0.5 + qbz*0.5, qaw*0.5 + qbw*0.5 );
+     {
+       // nearly coincident - linear interpolation is indistinguishable and avoids dividing by a small number
+       rA = 1.0 - t;
+       rB = t;
+     }
      else
      {
-       let rA: number = Math.sin((1.0 - t)*halfTheta) / sinHalfTheta;
-       let rB: number = Math.sin(t*halfTheta) / sinHalfTheta;
-
-       qt.fromArray( qax*rA + qbx*rB, qay*rA + qby*rB, qaz*rA + qbz*rB, qaw*rA + qbw*rB );
+       rA = Math.sin((1.0 - t)*halfTheta) / sinHalfTheta;
+       rB = Math.sin(t*halfTheta) / sinHalfTheta;
      }
 
+     qt.fromArray( qaw*rA + qbw*rB, qax*rA + qbx*rB, qay*rA + qby*rB, qaz*rA + qbz*rB );
+
      return qt;
    }
 
@@ -735,7 +900,8 @@
    * @param {number} t Interpolation parameter in [0,1].
    *
    * @returns {TSMT$Quaternation} Normalized, interpolated quaternion at t-parameter; note that NLERP does not preserve
-   * constant velocity, but is computationally simpler as well as commutative and torque-minimal.
+   * constant velocity, but is computationally simpler as well as commutative and torque-minimal.  The input Quaternion
+   * is not modified.
    */
    public nlerp( q: TSMT$Quaternion, _t: number ): TSMT$Quaternion
    {
@@ -743,6 +909,7 @@
      t             = Math.min(t,1.0);
 
      const qt: TSMT$Quaternion = this.clone();
+     const qb: TSMT$Quaternion = q.clone();
 
      const t1: number = 1.0 - t;
 
@@ -751,9 +918,9 @@
      }
 
      qt.multiplyByScalar(t1);
-     q.multiplyByScalar(t);
+     qb.multiplyByScalar(t);
 
-     qt.add(q);
+     qt.add(qb);
      qt.normalize();
 
      return qt;
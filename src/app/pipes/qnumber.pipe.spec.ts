@@ -0,0 +1,35 @@
+import { QNumberPipe } from './qnumber.pipe';
+
+describe('QNumberPipe', () => {
+  const pipe: QNumberPipe = new QNumberPipe();
+
+  it('create an instance', () => {
+    expect(pipe).toBeTruthy();
+  });
+
+  it('should trim trailing zeros in auto notation', () => {
+    expect( pipe.transform(0.5, {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: '.'}) ).toBe('0.5');
+    expect( pipe.transform(0.70710678118654757, {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: '.'}) ).toBe('0.707107');
+    expect( pipe.transform(-2, {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: '.'}) ).toBe('-2');
+  });
+
+  it('should switch to scientific notation for very large or small values in auto notation', () => {
+    expect( pipe.transform(1.5e-9, {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: '.'}) ).toBe('1.5e-9');
+    expect( pipe.transform(123456789, {decimals: 3, notation: 'auto', epsilon: 1e-12, separator: '.'}) ).toBe('1.235e+8');
+  });
+
+  it('should keep trailing zeros in fixed and scientific notation', () => {
+    expect( pipe.transform(0.5, {decimals: 3, notation: 'fixed', epsilon: 1e-12, separator: '.'}) ).toBe('0.500');
+    expect( pipe.transform(0.5, {decimals: 2, notation: 'scientific', epsilon: 1e-12, separator: '.'}) ).toBe('5.00e-1');
+  });
+
+  it('should snap near-zero values to zero', () => {
+    expect( pipe.transform(1e-17, {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: '.'}) ).toBe('0');
+    expect( pipe.transform(-1e-17, {decimals: 2, notation: 'fixed', epsilon: 1e-12, separator: '.'}) ).toBe('0.00');
+    expect( pipe.transform(-1e-7, {decimals: 2, notation: 'fixed', epsilon: 0, separator: '.'}) ).toBe('0.00');
+  });
+
+  it('should use the decimal separator', () => {
+    expect( pipe.transform(-0.25, {decimals: 6, notation: 'auto', epsilon: 1e-12, separator: ','}) ).toBe('-0,25');
+  });
+});
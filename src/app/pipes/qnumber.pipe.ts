@@ -0,0 +1,51 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Display a quaternion component (or any other number) according to the display settings, i.e.
+ * {{ w | qnumber:display }} where display is the display section of the settings slice of the store
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+import { Pipe
+       , PipeTransform
+} from '@angular/core';
+
+import { CalcDisplay  } from "../state/definitions/CalcSettings";
+import { NumberFormat } from "../libs/NumberFormat";
+
+@Pipe({
+  name: 'qnumber'
+})
+export class QNumberPipe implements PipeTransform
+{
+  /**
+   * Format a number
+   *
+   * @param {number} value Value to be displayed
+   *
+   * @param {CalcDisplay} display (optional) Display settings
+   * @default NumberFormat.DEFAULTS
+   *
+   * @returns {string} Formatted value
+   */
+  public transform(value: number, display?: CalcDisplay): string
+  {
+    return NumberFormat.format(value, display ? display : NumberFormat.DEFAULTS);
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * This software is derived from that bearing the following copyright notice
+ *
+ * -----
+ *
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+// platform imports
+import { Injectable } from '@angular/core';
+import { Action     } from '@ngrx/store';
+
+// logging
+import { LogLevel       } from './Logging';
+import { LoggingService } from './Logging';
+
+// calculator state
+import { CalcState } from '../state/definitions/CalcState';
+import { QRecord   } from '../state/definitions/QRecord';
+import { QRecords  } from '../libs/QRecords';
+
+import { FileExport } from '../FileExport';
+
+/**
+ * Calculator inputs and result recorded before and after an action; quaternions are [w, i, j, k]
+ */
+export interface AuditValues
+{
+  q1: Array<number>;
+
+  q2: Array<number>;
+
+  result: Array<number>;
+}
+
+/**
+ * A single entry in the audit trail
+ */
+export interface AuditEntry
+{
+  // ISO 8601 time at which the action was reduced
+  timestamp: string;
+
+  action: string;
+
+  // summary of the action payload (empty if the action has no payload)
+  payload: string;
+
+  before: AuditValues;
+
+  after: AuditValues;
+}
+
+/**
+ * Audit trail of the actions dispatched to the calculator store.  Each action is recorded by AuditEffects once it is
+ * reduced, along with the inputs and result before and after the action, and is logged with its state diff at the
+ * audit log level.  The default audit log level is LogLevel.ALL, which only the memory log sink retains.  The trail
+ * retains the most recent entries and may be exported as JSON or CSV in order to reproduce a session.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+@Injectable()
+export class AuditTrail
+{
+  public static readonly CAPACITY: number     = 1000;
+  public static readonly PAYLOAD_SIZE: number = 200;
+
+  protected _entries: Array<AuditEntry>; // recorded actions, oldest first
+  protected _level: number;              // level at which actions are logged
+
+ /**
+  * Construct a new audit trail
+  *
+  * @param _logger: LoggingService Injected logging service
+  */
+  constructor(protected _logger: LoggingService)
+  {
+    this._entries = new Array<AuditEntry>();
+    this._level   = LogLevel.ALL;
+  }
+
+ /**
+  * Assign the level at which actions are logged
+  *
+  * @param level: number Log level (should be one of the levels described in LogLevel)
+  */
+  public set logLevel(level: number)
+  {
+    if (LoggingService.validLevel(level))
+      this._level = level;
+  }
+
+ /**
+  * Access the recorded actions
+  *
+  * @return Array<AuditEntry> Entries, oldest first
+  */
+  public get entries(): Array<AuditEntry>
+  {
+    return this._entries.slice();
+  }
+
+ /**
+  * Record an action and the state before and after it was reduced, and log it with the changes to the state
+  *
+  * @param action: Action Dispatched action
+  *
+  * @param before: CalcState State before the action
+  *
+  * @param after: CalcState State after the action
+  *
+  * @return nothing
+  */
+  public record(action: Action, before: CalcState, after: CalcState): void
+  {
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      action: action.type,
+      payload: AuditTrail.__summary(action['payload']),
+      before: AuditTrail.__values(before),
+      after: AuditTrail.__values(after)
+    };
+
+    this._entries.push(entry);
+    if (this._entries.length > AuditTrail.CAPACITY) {
+      this._entries.shift();
+    }
+
+    this._logger.log(this._level, action.type, {payload: entry.payload, changes: AuditTrail.__diff(before, after)}, 'AuditTrail');
+  }
+
+ /**
+  * Discard all recorded actions
+  *
+  * @return nothing
+  */
+  public clear(): void
+  {
+    this._entries.length = 0;
+  }
+
+ /**
+  * Export the audit trail as JSON
+  *
+  * @return string
+  */
+  public toJSON(): string
+  {
+    return JSON.stringify(this._entries, null, 2);
+  }
+
+ /**
+  * Export the audit trail as CSV, one row per action
+  *
+  * @return string
+  */
+  public toCSV(): string
+  {
+    const header: string = 'timestamp,action,payload,q1 before,q2 before,result before,q1 after,q2 after,result after';
+
+    const rows: Array<string> = this._entries.map( (e: AuditEntry) =>
+      [e.timestamp, e.action, e.payload,
+       e.before.q1, e.before.q2, e.before.result,
+       e.after.q1, e.after.q2, e.after.result].map( (v: any) => AuditTrail.__csv(v) ).join(',')
+    );
+
+    return [header].concat(rows).join('\n');
+  }
+
+ /**
+  * Download the audit trail
+  *
+  * @param format: string 'json' or 'csv'
+  *
+  * @return nothing
+  */
+  public download(format: string): void
+  {
+    if (format == 'csv')
+      FileExport.download(this.toCSV(), 'audit.csv', 'text/csv');
+    else
+      FileExport.download(this.toJSON(), 'audit.json', 'application/json');
+  }
+
+  // inputs and result of a state
+  protected static __values(state: CalcState): AuditValues
+  {
+    const inputs: any = state ? state.inputs : undefined;
+
+    return {
+      q1: inputs ? AuditTrail.__toArray(inputs.q1) : null,
+      q2: inputs ? AuditTrail.__toArray(inputs.q2) : null,
+      result: inputs ? AuditTrail.__toArray(inputs.result) : null
+    };
+  }
+
+  // changed fields of the inputs and memory slices, i.e. {'inputs.q1': {before: [...], after: [...]}}
+  protected static __diff(before: CalcState, after: CalcState): Object
+  {
+    const changes: Object = {};
+
+    const change: (field: string, a: any, b: any) => void = (field: string, a: any, b: any) =>
+    {
+      if (JSON.stringify(a) !== JSON.stringify(b)) {
+        changes[field] = {before: a, after: b};
+      }
+    };
+
+    const inputs: Array<string> = ['q1', 'q2', 'result', 'scalar', 't', 'op', 'expression'];
+    inputs.forEach( (field: string) =>
+    {
+      const a: any = before && before.inputs ? before.inputs[field] : undefined;
+      const b: any = after && after.inputs ? after.inputs[field] : undefined;
+
+      change('inputs.' + field, QRecords.isRecord(a) ? AuditTrail.__toArray(a) : a, QRecords.isRecord(b) ? AuditTrail.__toArray(b) : b);
+    });
+
+    const r1: Object = before && before.memory ? before.memory.registers : {};
+    const r2: Object = after && after.memory ? after.memory.registers : {};
+
+    if (r1 !== r2)
+    {
+      Object.keys(r1).concat( Object.keys(r2).filter( (name: string) => !r1.hasOwnProperty(name) ) ).forEach( (name: string) =>
+        change('memory.' + name, AuditTrail.__toArray(r1[name]), AuditTrail.__toArray(r2[name]))
+      );
+    }
+
+    return changes;
+  }
+
+  // payload summary with quaternions as [w, i, j, k]
+  protected static __summary(payload: any): string
+  {
+    if (payload === undefined) {
+      return '';
+    }
+
+    const summary: string = JSON.stringify(payload, (key: string, value: any) => QRecords.isRecord(value) ? AuditTrail.__toArray(value) : value);
+
+    return summary.length > AuditTrail.PAYLOAD_SIZE ? summary.substr(0, AuditTrail.PAYLOAD_SIZE) + '...' : summary;
+  }
+
+  protected static __toArray(q: QRecord): Array<number>
+  {
+    return q ? [q.w, q.i, q.j, q.k] : null;
+  }
+
+  protected static __csv(value: any): string
+  {
+    const s: string = value == null ? '' : (value instanceof Array ? value.join(' ') : String(value));
+
+    return /[",\n]/.test(s) ? '"' + s.replace(/"/g, '""') + '"' : s;
+  }
+}
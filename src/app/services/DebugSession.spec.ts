@@ -0,0 +1,128 @@
+import { Action, combineReducers, ActionReducer } from '@ngrx/store';
+import { Actions } from '@ngrx/effects';
+
+import { Subject         } from 'rxjs/Subject';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+
+import * as CalcActions from '../state/actions/CalcActions';
+
+import { CalcState } from '../state/definitions/CalcState';
+import { quaternionCalcReducers, quaternionMetaReducers } from '../state/definitions/CalcState';
+import { restorer } from '../state/reducers/debug.reducers';
+import { DebugEffects } from '../state/effects/debug.effects';
+import { QRecords } from '../libs/QRecords';
+
+import { DebugSession, DebugEntry, DebugSessionData } from './DebugSession';
+
+describe('DebugSession', () => {
+  let session: DebugSession;
+  let reducer: ActionReducer<CalcState>;
+  let initial: CalcState;
+  let state: CalcState;
+  let store: BehaviorSubject<CalcState>;
+  let actions: Subject<Action>;
+
+  // reduce an action, then deliver it to the effects as the store does
+  const dispatch = (action: Action) =>
+  {
+    state = reducer(state, action);
+    store.next(state);
+    actions.next(action);
+  };
+
+  beforeEach(() => {
+    session = new DebugSession();
+    reducer = [restorer(session)].concat(quaternionMetaReducers)
+      .reduceRight( (r: ActionReducer<CalcState>, meta: any) => meta(r), combineReducers(<any> quaternionCalcReducers) );
+
+    initial = reducer(undefined, {type: '@ngrx/store/init'});
+    state   = initial;
+    store   = new BehaviorSubject<CalcState>(state);
+    actions = new Subject<Action>();
+
+    new DebugEffects(new Actions(actions), session, <any> store).recorded$.subscribe();
+
+    dispatch({type: '@ngrx/effects/init'});
+    dispatch( new CalcActions.ToQ1(QRecords.create(1, 2, 3, 4)) );
+    dispatch( new CalcActions.ToMemory({register: '', id: 'Q_1', memory: QRecords.create(0, 1, 0, 0)}) );
+  });
+
+  it('should record each action and the state after it', () => {
+    expect(session.entries.map( (e: DebugEntry) => e.action.type )).toEqual(['@ngrx/effects/init', CalcActions.TO_Q1, CalcActions.TO_MEMORY]);
+    expect(session.entries[2].state).toBe(state);
+    expect(session.stateAt(-1)).toBe(initial);
+    expect(session.position).toBe(2);
+  });
+
+  it('should not record a state that is recomputed without an action', () => {
+    state = reducer(state, new CalcActions.ToQ2(QRecords.create(0, 0, 1, 0)));
+    store.next(state);
+
+    expect(session.entries.length).toBe(3);
+
+    dispatch( new CalcActions.ClearTape() );
+
+    expect(session.entries.length).toBe(4);
+    expect(session.entries[3].state).toBe(state);
+  });
+
+  it('should restore a recorded state without recording the jump', () => {
+    dispatch( new CalcActions.DebugJump(1) );
+
+    expect(state.inputs).toBe(session.stateAt(1).inputs);
+    expect(state.memory.registers).toEqual({});
+    expect(session.entries.length).toBe(3);
+    expect(session.position).toBe(1);
+  });
+
+  it('should discard the actions after a jump when a new action is recorded', () => {
+    dispatch( new CalcActions.DebugJump(1) );
+    dispatch( new CalcActions.ClearTape() );
+
+    expect(session.entries.map( (e: DebugEntry) => e.action.type )).toEqual(['@ngrx/effects/init', CalcActions.TO_Q1, CalcActions.CLEAR_TAPE]);
+    expect(session.position).toBe(2);
+  });
+
+  it('should reproduce the calculation tape when an operation is replayed', () => {
+    jasmine.clock().install();
+    jasmine.clock().mockDate( new Date(1000) );
+
+    const add: CalcActions.QAdd = new CalcActions.QAdd();
+
+    jasmine.clock().tick(5000);
+    dispatch(add);
+
+    const entries: Array<any> = state.tape.entries;
+
+    jasmine.clock().tick(5000);
+    dispatch( new CalcActions.DebugJump(2) );
+    dispatch(add);
+
+    jasmine.clock().uninstall();
+
+    expect(state.tape.entries).toEqual(entries);
+    expect(entries[entries.length-1].timestamp).toBe(1000);
+  });
+
+  it('should export and parse a session', () => {
+    session.clear();
+    dispatch( new CalcActions.ToQ2(QRecords.create(0, 0, 1, 0)) );
+
+    const data: DebugSessionData = DebugSession.parse( session.toJSON() );
+
+    expect(data.initial.memory.registers['M1']).toEqual({w: 0, i: 1, j: 0, k: 0});
+    expect(<Array<any>> data.actions).toEqual([{type: CalcActions.TO_Q2, payload: {w: 0, i: 0, j: 1, k: 0}}]);
+  });
+
+  it('should reject text that is not a session', () => {
+    expect( () => DebugSession.parse('{') ).toThrowError('invalid JSON');
+    expect( () => DebugSession.parse('{"initial": null}') ).toThrowError('not a debug session; expected a list of actions');
+    expect( () => DebugSession.parse('{"actions": [{"type": "x"}, {}]}') ).toThrowError('action 2 has no type');
+  });
+
+  it('should not replay requests to the service layer', () => {
+    expect( DebugSession.isReplayed(new CalcActions.LoadModel('model')) ).toBe(false);
+    expect( DebugSession.isReplayed({type: '@ngrx/effects/init'}) ).toBe(false);
+    expect( DebugSession.isReplayed(new CalcActions.LoadModelFailure('missing')) ).toBe(true);
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+// platform imports
+import { Injectable } from '@angular/core';
+import { Action     } from '@ngrx/store';
+
+// calculator state
+import * as CalcActions from '../state/actions/CalcActions';
+
+import { CalcState } from '../state/definitions/CalcState';
+
+import { FileExport  } from '../FileExport';
+import { environment } from '../../environments/environment';
+
+/**
+ * A single action recorded in the debug session
+ */
+export interface DebugEntry
+{
+  // sequence number of the action in the session
+  id: number;
+
+  // time at which the action was reduced, in msec since the epoch
+  timestamp: number;
+
+  action: Action;
+
+  // state after the action
+  state: CalcState;
+}
+
+/**
+ * An exported session; the state before the first action and the actions, oldest first
+ */
+export interface DebugSessionData
+{
+  initial: CalcState;
+
+  actions: Array<Action>;
+}
+
+/**
+ * Debug session of the calculator store, which backs the in-app debug drawer.  Each action is recorded by DebugEffects
+ * along with the state after it was reduced (states are frozen records, so no copy is made).  A recorded state may be
+ * restored by dispatching DebugJump, and a session may be exported and imported as JSON and replayed.
+ *
+ * Jumping to an earlier action works like undo; the actions after it remain in the session until the next action is
+ * recorded, which discards them.  Actions that request a model from (or send a model to) the service layer are not
+ * replayed, since the actions dispatched with the results are recorded themselves.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+@Injectable()
+export class DebugSession
+{
+  // actions that are not replayed
+  protected static SKIPPED: Array<string> = [CalcActions.LOAD_MODEL, CalcActions.LOAD_MODEL_SUCCESS, CalcActions.SAVE_MODEL,
+                                             CalcActions.DEBUG_JUMP];
+
+  protected _entries: Array<DebugEntry>; // recorded actions, oldest first
+  protected _initial: CalcState;         // state before the oldest recorded action
+  protected _position: number;           // index of the entry whose state is current (-1 for the initial state)
+  protected _next: number;               // id of the next entry
+  protected _capacity: number;           // maximum number of recorded actions
+
+ /**
+  * Construct a new debug session
+  */
+  constructor()
+  {
+    this._entries  = new Array<DebugEntry>();
+    this._initial  = undefined;
+    this._position = -1;
+    this._next     = 1;
+    this._capacity = environment.debugDepth;
+  }
+
+ /**
+  * Access whether or not actions are recorded
+  *
+  * @return boolean False if the debug depth of the environment is zero
+  */
+  public get enabled(): boolean
+  {
+    return this._capacity > 0;
+  }
+
+ /**
+  * Access the recorded actions
+  *
+  * @return Array<DebugEntry> Entries, oldest first
+  */
+  public get entries(): Array<DebugEntry>
+  {
+    return this._entries.slice();
+  }
+
+ /**
+  * Access the index of the entry whose state is current
+  *
+  * @return number Index into the entries, or -1 if the state before the first entry is current
+  */
+  public get position(): number
+  {
+    return this._position;
+  }
+
+ /**
+  * Access the state after a recorded action
+  *
+  * @param index: number Index into the entries, or -1 for the state before the first entry
+  *
+  * @return CalcState Recorded state, which is undefined before the store is initialized or for an invalid index
+  */
+  public stateAt(index: number): CalcState
+  {
+    if (index == -1) {
+      return this._initial;
+    }
+
+    return index >= 0 && index < this._entries.length ? this._entries[index].state : undefined;
+  }
+
+ /**
+  * Record an action and the state after it was reduced
+  *
+  * @param action: Action Dispatched action
+  *
+  * @param before: CalcState State before the action
+  *
+  * @param after: CalcState State after the action
+  *
+  * @return nothing
+  */
+  public record(action: Action, before: CalcState, after: CalcState): void
+  {
+    if (!this.enabled) {
+      return;
+    }
+
+    // a new action after a jump starts a new timeline
+    if (this._position < this._entries.length - 1) {
+      this._entries.length = this._position + 1;
+    }
+
+    if (this._entries.length == 0) {
+      this._initial = before;
+    }
+
+    this._entries.push({id: this._next++, timestamp: Date.now(), action: action, state: after});
+
+    if (this._entries.length > this._capacity) {
+      this._initial = this._entries.shift().state;
+    }
+
+    this._position = this._entries.length - 1;
+  }
+
+ /**
+  * Mark a recorded state as current (after it is restored into the store)
+  *
+  * @param index: number Index into the entries, or -1 for the state before the first entry
+  *
+  * @return nothing
+  */
+  public jumped(index: number): void
+  {
+    this._position = Math.max(-1, Math.min(this._entries.length - 1, index));
+  }
+
+ /**
+  * Access whether or not an action is replayed
+  *
+  * @param action: Action Recorded action
+  *
+  * @return boolean False for actions handled by effects, store and effects initialization, and jumps
+  */
+  public static isReplayed(action: Action): boolean
+  {
+    return DebugSession.SKIPPED.indexOf(action.type) == -1 && action.type.indexOf('@ngrx/') != 0;
+  }
+
+ /**
+  * Discard all recorded actions; the current state becomes the initial state of the session
+  *
+  * @return nothing
+  */
+  public clear(): void
+  {
+    this._initial        = this.stateAt(this._position);
+    this._entries.length = 0;
+    this._position       = -1;
+  }
+
+ /**
+  * Start a session from imported data, replacing all recorded actions (dispatch DebugJump(-1) to restore its initial
+  * state, then replay its actions)
+  *
+  * @param data: DebugSessionData Imported session
+  *
+  * @return nothing
+  */
+  public load(data: DebugSessionData): void
+  {
+    this._initial        = data.initial != null ? data.initial : undefined;
+    this._entries.length = 0;
+    this._position       = -1;
+  }
+
+ /**
+  * Export the session as JSON
+  *
+  * @return string
+  */
+  public toJSON(): string
+  {
+    const data: DebugSessionData = {
+      initial: this._initial !== undefined ? this._initial : null,
+      actions: this._entries.map( (e: DebugEntry) => e.action )
+    };
+
+    return JSON.stringify(data, null, 2);
+  }
+
+ /**
+  * Parse an exported session
+  *
+  * @param text: string JSON text of an exported session
+  *
+  * @return DebugSessionData
+  *
+  * @throws Error If the text is not an exported session
+  */
+  public static parse(text: string): DebugSessionData
+  {
+    let data: any;
+
+    try
+    {
+      data = JSON.parse(text);
+    }
+    catch (err)
+    {
+      throw new Error('invalid JSON');
+    }
+
+    if (data == null || typeof data !== 'object' || !Array.isArray(data.actions)) {
+      throw new Error('not a debug session; expected a list of actions');
+    }
+
+    if (data.initial != null && (typeof data.initial !== 'object' || !data.initial.inputs || !data.initial.memory)) {
+      throw new Error('the initial state is not a calculator state');
+    }
+
+    data.actions.forEach( (action: any, n: number) =>
+    {
+      if (action == null || typeof action.type !== 'string') {
+        throw new Error('action ' + (n+1) + ' has no type');
+      }
+    });
+
+    return {initial: data.initial, actions: data.actions};
+  }
+
+ /**
+  * Download the session as JSON
+  *
+  * @return nothing
+  */
+  public download(): void
+  {
+    FileExport.download(this.toJSON(), 'session.json', 'application/json');
+  }
+}
@@ -0,0 +1,127 @@
+/**
+ * This software is derived from that bearing the following copyright notice
+ *
+ * -----
+ *
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+// platform imports
+import { Injectable } from '@angular/core';
+import { Http       } from '@angular/http';
+
+// rxjs
+import { Observable } from 'rxjs/Observable';
+import 'rxjs/add/observable/of';
+
+// service layer and logging
+import { ServiceLayer   } from './ServiceLayer';
+import { LogLevel       } from './Logging';
+import { LoggingService } from './Logging';
+
+// calculator model
+import { CalcState   } from '../state/definitions/CalcState';
+import { CalcModel   } from '../state/definitions/CalcModel';
+import { ModelSchema } from '../libs/ModelSchema';
+
+/**
+ * A service layer that saves calculator models in browser local storage, so that sessions survive a reload without a
+ * back end.  A model that has never been saved locally is loaded from the server.  Provide this class in place of
+ * ServiceLayer, i.e. {provide: ServiceLayer, useClass: LocalStorageServiceLayer}.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+@Injectable()
+export class LocalStorageServiceLayer extends ServiceLayer
+{
+  public static readonly KEY_PREFIX: string = 'qcalc.model.';
+
+ /**
+  * Construct a new local-storage service
+  *
+  * @param _http: Http Injected Http instance from the platform
+  *
+  * @param _logger: LoggingService Injected logging service
+  */
+  constructor(protected _http: Http, protected _logger: LoggingService)
+  {
+    super(_http, _logger);
+  }
+
+  /**
+   * Save the calculator model contained in the current state to local storage
+   *
+   * @param {CalcState} state Current calculator state
+   *
+   * @param {string} id Model id
+   *
+   * @returns {Observable<string>} Id of the saved model
+   */
+  public saveModel(state: CalcState, id: string): Observable<string>
+  {
+    this._logger.log( LogLevel.INFO, "local storage, save model: " + id );
+
+    try
+    {
+      localStorage.setItem(LocalStorageServiceLayer.KEY_PREFIX + id, JSON.stringify(this.__toModel(state)));
+    }
+    catch (err)
+    {
+      return this.__errHandler(err, undefined);
+    }
+
+    return Observable.of(id);
+  }
+
+  /**
+   * Load a calculator model from local storage or from the server if it has not been saved locally
+   *
+   * @param {string} id Model id
+   *
+   * @returns {Observable<CalcModel>}
+   */
+  public loadModel(id: string): Observable<CalcModel>
+  {
+    let data: string;
+
+    try
+    {
+      data = localStorage.getItem(LocalStorageServiceLayer.KEY_PREFIX + id);
+    }
+    catch (err)
+    {
+      return this.__errHandler(err, undefined);
+    }
+
+    if (data == null) {
+      return super.loadModel(id);
+    }
+
+    this._logger.log( LogLevel.INFO, "local storage, load model: " + id );
+
+    try
+    {
+      return Observable.of( ModelSchema.parse(JSON.parse(data)) );
+    }
+    catch (err)
+    {
+      return this.__errHandler(err, undefined);
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { TestBed, fakeAsync, tick, inject } from '@angular/core/testing';
+import { BaseRequestOptions, Http, Response, ResponseOptions } from '@angular/http';
+import { MockBackend, MockConnection } from '@angular/http/testing';
+
+import { LogLevel, LogRecord } from './Logging';
+import { HttpLogSink, MemoryLogSink } from './LogSinks';
+
+function record(message: string, level: LogLevel = LogLevel.INFO): LogRecord
+{
+  return {level: level, timestamp: new Date().toISOString(), source: 'spec', message: message};
+}
+
+describe('MemoryLogSink', () => {
+  let sink: MemoryLogSink;
+
+  beforeEach(() => {
+    sink = new MemoryLogSink();
+  });
+
+  it('should retain records oldest first', () => {
+    sink.write(record('one'));
+    sink.write(record('two'));
+
+    expect(sink.records.map( (r: LogRecord) => r.message )).toEqual(['one', 'two']);
+  });
+
+  it('should discard the oldest records beyond capacity', () => {
+    sink.capacity = 3;
+
+    ['one', 'two', 'three', 'four', 'five'].forEach( (m: string) => sink.write(record(m)) );
+
+    expect(sink.records.map( (r: LogRecord) => r.message )).toEqual(['three', 'four', 'five']);
+  });
+
+  it('should clear', () => {
+    sink.write(record('one'));
+    sink.clear();
+
+    expect(sink.records.length).toBe(0);
+  });
+});
+
+describe('HttpLogSink', () => {
+  let backend: MockBackend;
+  let sink: HttpLogSink;
+  let batches: Array<Array<LogRecord>>;
+  let failures: number;
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [
+        MockBackend,
+        BaseRequestOptions,
+        {
+          provide: Http,
+          useFactory: (mock: MockBackend, options: BaseRequestOptions) => new Http(mock, options),
+          deps: [MockBackend, BaseRequestOptions]
+        },
+        HttpLogSink
+      ]
+    });
+
+    batches  = [];
+    failures = 0;
+
+    spyOn(console, 'log');
+  });
+
+  beforeEach(inject([MockBackend, HttpLogSink], (mock: MockBackend, service: HttpLogSink) => {
+    backend = mock;
+    sink    = service;
+
+    backend.connections.subscribe( (connection: MockConnection) => {
+      if (failures > 0)
+      {
+        failures--;
+        connection.mockError(new Error('unavailable'));
+      }
+      else
+      {
+        batches.push(JSON.parse(connection.request.getBody()).records);
+        connection.mockRespond(new Response(new ResponseOptions({status: 200})));
+      }
+    });
+
+    sink.url           = '/api/log';
+    sink.flushInterval = 1000;
+    sink.maxBatchSize  = 3;
+    sink.retryDelay    = 100;
+    sink.maxRetries    = 2;
+  }));
+
+  afterEach(() => {
+    sink.ngOnDestroy();
+  });
+
+  it('should buffer records until the flush interval', fakeAsync(() => {
+    sink.write(record('one'));
+    sink.write(record('two', LogLevel.WARN));
+
+    expect(batches.length).toBe(0);
+    expect(sink.pending).toBe(2);
+
+    tick(1000);
+
+    expect(batches.length).toBe(1);
+    expect(batches[0].length).toBe(2);
+    expect(batches[0][1].level).toBe(LogLevel.WARN);
+    expect(sink.pending).toBe(0);
+  }));
+
+  it('should send a full batch immediately', fakeAsync(() => {
+    sink.write(record('one'));
+    sink.write(record('two'));
+    sink.write(record('three'));
+
+    expect(batches.length).toBe(1);
+    expect(batches[0].length).toBe(3);
+
+    tick(1000);
+    expect(batches.length).toBe(1);
+  }));
+
+  it('should retry a failed batch with backoff', fakeAsync(() => {
+    failures = 2;
+
+    sink.write(record('failure', LogLevel.ERROR));
+    sink.flush();
+    expect(batches.length).toBe(0);
+
+    tick(100);
+    expect(batches.length).toBe(0);
+
+    tick(200);
+    expect(batches.length).toBe(1);
+    expect(batches[0][0].message).toBe('failure');
+  }));
+
+  it('should drop a batch after the maximum number of retries', fakeAsync(() => {
+    failures = 3;
+
+    sink.write(record('failure', LogLevel.ERROR));
+    sink.flush();
+
+    tick(1000);
+    expect(batches.length).toBe(0);
+  }));
+
+  it('should flush on destroy', fakeAsync(() => {
+    sink.write(record('last'));
+    sink.ngOnDestroy();
+
+    expect(batches.length).toBe(1);
+  }));
+
+  // the unload listener is called directly, since dispatching beforeunload would signal a page reload to the runner
+  it('should send a beacon on unload', fakeAsync(() => {
+    spyOn(navigator, 'sendBeacon').and.returnValue(true);
+
+    sink.write(record('one'));
+    sink.write(record('two'));
+    sink['_onUnload']();
+
+    expect(navigator.sendBeacon).toHaveBeenCalledTimes(1);
+    expect(navigator.sendBeacon).toHaveBeenCalledWith('/api/log', jasmine.any(String));
+    expect(JSON.parse(( <jasmine.Spy> navigator.sendBeacon ).calls.argsFor(0)[1]).records.length).toBe(2);
+    expect(batches.length).toBe(0);
+    expect(sink.pending).toBe(0);
+  }));
+
+  it('should post on unload if a beacon can not be queued', fakeAsync(() => {
+    spyOn(navigator, 'sendBeacon').and.returnValue(false);
+
+    sink.write(record('last'));
+    sink['_onUnload']();
+
+    expect(batches.length).toBe(1);
+  }));
+
+  it('should remove the unload listener on destroy', fakeAsync(() => {
+    spyOn(window, 'removeEventListener').and.callThrough();
+
+    sink.ngOnDestroy();
+
+    expect(window.removeEventListener).toHaveBeenCalledWith('beforeunload', sink['_onUnload']);
+  }));
+});
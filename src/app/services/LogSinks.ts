@@ -0,0 +1,348 @@
+/**
+ * This software is derived from that bearing the following copyright notice
+ *
+ * -----
+ *
+ * Copyright 2016 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+// platform imports
+import { Injectable
+       , OnDestroy
+} from '@angular/core';
+
+import { Http, Response } from '@angular/http';
+
+// logging
+import { LogLevel  } from './Logging';
+import { LogRecord } from './Logging';
+import { LogSink   } from './Logging';
+
+import { environment } from '../../environments/environment';
+
+/**
+ * Log sinks for the logging service.  Register each sink with the LOG_SINKS multi-provider; provide a sink under its
+ * own class as well (useExisting) in order to configure it or read from it, i.e. MemoryLogSink in tests.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+/**
+ * Write log records to the console; by default, records below INFO (i.e. the audit trail) are not written
+ */
+@Injectable()
+export class ConsoleLogSink implements LogSink
+{
+  public level: number = LogLevel.INFO;
+
+  protected _header: Array<string>; // header that precedes a logged message - typically used to convey the level of the message
+
+  constructor()
+  {
+    this._header = ['ALL: ', 'INFO: ', 'DEBUG: ', 'WARNING: ', 'ERROR: ', 'NONE: ' ];
+  }
+
+  public write(record: LogRecord): void
+  {
+    const source: string = record.source != '' ? ' [' + record.source + ']' : '';
+    const output: string = this._header[record.level] + " at " + record.timestamp + source + "  -  " + record.message;
+
+    if (record.context !== undefined)
+      console.log( output, record.context );
+    else
+      console.log( output );
+  }
+}
+
+/**
+ * Retain the most recent log records in a fixed-capacity ring buffer
+ */
+@Injectable()
+export class MemoryLogSink implements LogSink
+{
+  public static readonly CAPACITY: number = 500;
+
+  public level: number = LogLevel.ALL;
+
+  protected _buffer: Array<LogRecord>; // ring buffer of records
+  protected _next: number;             // index of the next record to be written
+  protected _count: number;            // number of records in the buffer
+  protected _capacity: number;         // maximum number of records retained
+
+  constructor()
+  {
+    this._capacity = MemoryLogSink.CAPACITY;
+
+    this.clear();
+  }
+
+ /**
+  * Assign the number of records retained; existing records are discarded
+  *
+  * @param value: number Capacity (must be at least one)
+  */
+  public set capacity(value: number)
+  {
+    if (!isNaN(value) && value >= 1)
+    {
+      this._capacity = Math.floor(value);
+      this.clear();
+    }
+  }
+
+ /**
+  * Access the retained records
+  *
+  * @return Array<LogRecord> Records, oldest first
+  */
+  public get records(): Array<LogRecord>
+  {
+    const start: number = (this._next - this._count + this._capacity) % this._capacity;
+    const result: Array<LogRecord> = new Array<LogRecord>();
+
+    let i: number;
+    for (i = 0; i < this._count; ++i) {
+      result.push( this._buffer[(start + i) % this._capacity] );
+    }
+
+    return result;
+  }
+
+  public write(record: LogRecord): void
+  {
+    this._buffer[this._next] = record;
+
+    this._next  = (this._next + 1) % this._capacity;
+    this._count = Math.min(this._count + 1, this._capacity);
+  }
+
+ /**
+  * Discard all retained records
+  *
+  * @return nothing
+  */
+  public clear(): void
+  {
+    this._buffer = new Array<LogRecord>(this._capacity);
+    this._next   = 0;
+    this._count  = 0;
+  }
+}
+
+/**
+ * Post log records to a server.  Records are buffered and posted to the log url in batches of at most maxBatchSize
+ * records, either when a batch fills or flushInterval msec after the first buffered record.  A failed batch is retried
+ * up to maxRetries times with exponential backoff, then dropped.  When the page unloads, buffered records are sent with
+ * navigator.sendBeacon, since the browser may cancel a post that is in progress; they are posted only if a beacon is
+ * unavailable or can not be queued.  Nothing is buffered unless a log url is assigned.  By default, records below INFO
+ * (i.e. the audit trail) are not posted.
+ */
+@Injectable()
+export class HttpLogSink implements LogSink, OnDestroy
+{
+  public level: number = LogLevel.INFO;
+
+  protected _logURL: string;             // url to call to log information to server
+  protected _buffer: Array<LogRecord>;   // records waiting to be sent to the server
+  protected _flushInterval: number;      // msec between the first buffered record and a flush
+  protected _maxBatchSize: number;       // maximum number of records posted in a single request
+  protected _maxRetries: number;         // number of times a failed batch is retried
+  protected _retryDelay: number;         // msec before the first retry; doubled on each subsequent retry
+  protected _timer: any;                 // pending flush
+  protected _retries: Array<any>;        // pending retries
+  protected _onUnload: () => void;       // final flush on page unload, removed on destroy
+
+ /**
+  * Construct a new http log sink
+  *
+  * @param _http: Http Injected Http instance from the platform
+  */
+  constructor(protected _http: Http)
+  {
+    this._logURL        = environment.logUrl;
+    this._buffer        = new Array<LogRecord>();
+    this._flushInterval = 5000;
+    this._maxBatchSize  = 20;
+    this._maxRetries    = 3;
+    this._retryDelay    = 1000;
+    this._timer         = null;
+    this._retries       = new Array<any>();
+
+    this._onUnload = () => this.__flush(true);
+
+    if (typeof window !== 'undefined') {
+      window.addEventListener('beforeunload', this._onUnload);
+    }
+  }
+
+ /**
+  * Assign a url to use in order to send log data to a server
+  *
+  * @param url: string URL of external service
+  */
+  public set url(url: string)
+  {
+    if (url != "")
+      this._logURL = url;
+  }
+
+ /**
+  * Assign the time between the first buffered record and a flush to the server
+  *
+  * @param value: number Flush interval in msec (must be positive)
+  */
+  public set flushInterval(value: number)
+  {
+    if (!isNaN(value) && value > 0)
+      this._flushInterval = value;
+  }
+
+ /**
+  * Assign the maximum number of records sent to the server in one request
+  *
+  * @param value: number Maximum batch size (must be at least one)
+  */
+  public set maxBatchSize(value: number)
+  {
+    if (!isNaN(value) && value >= 1)
+      this._maxBatchSize = Math.floor(value);
+  }
+
+ /**
+  * Assign the number of times a failed batch is retried before it is dropped
+  *
+  * @param value: number Maximum number of retries (zero disables retry)
+  */
+  public set maxRetries(value: number)
+  {
+    if (!isNaN(value) && value >= 0)
+      this._maxRetries = Math.floor(value);
+  }
+
+ /**
+  * Assign the delay before the first retry of a failed batch; the delay doubles for each subsequent retry
+  *
+  * @param value: number Retry delay in msec
+  */
+  public set retryDelay(value: number)
+  {
+    if (!isNaN(value) && value >= 0)
+      this._retryDelay = value;
+  }
+
+ /**
+  * Access the number of records waiting to be sent to the server
+  *
+  * @return number
+  */
+  public get pending(): number
+  {
+    return this._buffer.length;
+  }
+
+  public write(record: LogRecord): void
+  {
+    if (!this._logURL)
+      return;
+
+    this._buffer.push(record);
+
+    if (this._buffer.length >= this._maxBatchSize)
+      this.flush();
+    else if (this._timer == null)
+      this._timer = setTimeout( () => this.flush(), this._flushInterval );
+  }
+
+ /**
+  * Send all buffered records to the server
+  *
+  * @return nothing Buffered records are posted in batches of at most maxBatchSize records
+  */
+  public flush(): void
+  {
+    this.__flush(false);
+  }
+
+ /**
+  * Angular lifecycle method - on destroy
+  *
+  * @return nothing Buffered records are flushed, pending retries are abandoned, and the unload listener is removed
+  */
+  public ngOnDestroy(): void
+  {
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('beforeunload', this._onUnload);
+    }
+
+    this.flush();
+
+    this._retries.forEach( (timer: any) => clearTimeout(timer) );
+    this._retries.length = 0;
+  }
+
+  // send all buffered records, as beacons if the page is unloading
+  protected __flush(unload: boolean): void
+  {
+    if (this._timer != null)
+    {
+      clearTimeout(this._timer);
+      this._timer = null;
+    }
+
+    if (!this._logURL)
+      return;
+
+    const beacon: boolean = unload && typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function';
+    let batch: Array<LogRecord>;
+
+    while (this._buffer.length > 0)
+    {
+      batch = this._buffer.splice(0, this._maxBatchSize);
+
+      // a beacon is not queued if it exceeds the browser's limit on beacon data
+      if (!beacon || !navigator.sendBeacon(this._logURL, JSON.stringify({records: batch})))
+        this.__send(batch, 0);
+    }
+  }
+
+  // post a batch of records, retrying with exponential backoff on failure
+  protected __send(batch: Array<LogRecord>, attempt: number): void
+  {
+    this._http.post(this._logURL, {records: batch}).subscribe(
+      () => {},
+      (err: Response | any) =>
+      {
+        if (attempt < this._maxRetries)
+        {
+          const timer: any = setTimeout( () =>
+          {
+            this._retries.splice(this._retries.indexOf(timer), 1);
+            this.__send(batch, attempt+1);
+          }, this._retryDelay * Math.pow(2, attempt) );
+
+          this._retries.push(timer);
+        }
+        else
+        {
+          // logging the failure would only add to the undeliverable records
+          console.log( "ERROR: " + batch.length + " log records could not be sent to " + this._logURL );
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { TestBed, inject } from '@angular/core/testing';
+
+import { LoggingService, LogLevel, LogRecord, LogSink, LOG_SINKS } from './Logging';
+import { MemoryLogSink } from './LogSinks';
+
+describe('LoggingService', () => {
+  let all: MemoryLogSink;
+  let errors: MemoryLogSink;
+
+  beforeEach(() => {
+    all          = new MemoryLogSink();
+    errors       = new MemoryLogSink();
+    errors.level = LogLevel.ERROR;
+
+    TestBed.configureTestingModule({
+      providers: [
+        LoggingService,
+        {provide: LOG_SINKS, useValue: all, multi: true},
+        {provide: LOG_SINKS, useValue: errors, multi: true}
+      ]
+    });
+  });
+
+  it('should write structured records', inject([LoggingService], (logger: LoggingService) => {
+    logger.log(LogLevel.INFO, 'loaded', {id: 'model'}, 'ServiceLayer');
+
+    const r: LogRecord = all.records[0];
+    expect(r.level).toBe(LogLevel.INFO);
+    expect(r.message).toBe('loaded');
+    expect(r.source).toBe('ServiceLayer');
+    expect(r.context).toEqual({id: 'model'});
+    expect(new Date(r.timestamp).toISOString()).toBe(r.timestamp);
+  }));
+
+  it('should filter records per sink', inject([LoggingService], (logger: LoggingService) => {
+    logger.log(LogLevel.INFO, 'info');
+    logger.log(LogLevel.ERROR, 'error');
+
+    expect(all.records.length).toBe(2);
+    expect(errors.records.map( (r: LogRecord) => r.message )).toEqual(['error']);
+  }));
+
+  it('should filter records below the level of the service', inject([LoggingService], (logger: LoggingService) => {
+    logger.logLevel = LogLevel.WARN;
+    logger.log(LogLevel.DEBUG, 'debug');
+    logger.log(LogLevel.WARN, 'warn');
+    logger.log(LogLevel.ERROR, 'error');
+
+    expect(all.records.map( (r: LogRecord) => r.message )).toEqual(['warn', 'error']);
+    expect(errors.records.map( (r: LogRecord) => r.message )).toEqual(['error']);
+
+    expect(all.level).toBe(LogLevel.ALL);
+    expect(errors.level).toBe(LogLevel.ERROR);
+  }));
+
+  it('should assign the log url to sinks with a url', () => {
+    const remote: LogSink = {level: LogLevel.ALL, url: '', write: (r: LogRecord) => {}};
+
+    const logger: LoggingService = new LoggingService([all, remote]);
+    logger.logUrl = '/api/log';
+
+    expect(remote.url).toBe('/api/log');
+    expect('url' in all).toBe(false);
+  });
+
+  it('should ignore invalid levels', inject([LoggingService], (logger: LoggingService) => {
+    logger.log(42, 'invalid');
+
+    expect(all.records.length).toBe(0);
+  }));
+});
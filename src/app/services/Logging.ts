@@ -18,17 +18,17 @@
  * limitations under the License.
  */
 
-// platform imports
-import { Injectable     } from '@angular/core';
-import { Http, Response } from '@angular/http';
 
-// rxjs
-import { Observable } from 'rxjs/Observable';
-import 'rxjs/add/operator/map';
-import 'rxjs/add/operator/catch';
+// platform imports
+import { Injectable
+       , Inject
+       , InjectionToken
+} from '@angular/core';
 
 /**
- * A simple logging service to interact with a service layer to manage handling of errors and other progress information
+ * A simple logging service to interact with a service layer to manage handling of errors and other progress information.
+ * Each logged message at or above the level of the service becomes a structured record that is written to every
+ * registered log sink (console, in-memory, server) whose own level is at or below the level of the message.  Sinks are provided through the LOG_SINKS multi-provider.
  *
  * @author Jim Armstrong (www.algorithmist.net)
  *
@@ -45,24 +45,57 @@ export enum LogLevel
   NONE
 }
 
+/**
+ * A single structured log record
+ */
+export interface LogRecord
+{
+  level: LogLevel;
+
+  // ISO 8601 time at which the record was logged
+  timestamp: string;
+
+  // originator of the message, i.e. a service or component name (may be empty)
+  source: string;
+
+  message: string;
+
+  // optional data relevant to the message
+  context?: Object;
+}
+
+/**
+ * A destination for log records; only records at or above the sink's level are written to it
+ */
+export interface LogSink
+{
+  level: number;
+
+  // url of a sink that sends records to a server, i.e. HttpLogSink
+  url?: string;
+
+  write(record: LogRecord): void;
+}
+
+/**
+ * Multi-provider token for the sinks that receive every logged record, i.e. {provide: LOG_SINKS, useClass: ConsoleLogSink, multi: true}
+ */
+export const LOG_SINKS: InjectionToken<Array<LogSink>> = new InjectionToken<Array<LogSink>>('LOG_SINKS');
+
 @Injectable()
 export class LoggingService
 {
-  protected _logURL: string;        // url to call to log information to server
-  protected _level: number;         // logging level - defaults to LogLevel.ALL
-  protected _header: Array<string>; // header that precedes a logged message - typically used to convey the level of the message
+  protected _level: number; // logging level - defaults to LogLevel.ALL
 
  /**
   * Construct a new logging service
   *
-  * @param _http: Http Injected Http instance from the platform
+  * @param _sinks: Array<LogSink> Injected log sinks
   */
-  constructor(protected _http: Http)
+  constructor(@Inject(LOG_SINKS) protected _sinks: Array<LogSink>)
   {
-    this._logURL = "";
-    this._level  = LogLevel.ALL;
-
-    this._header = ['NONE: ', 'INFO: ', 'DEBUG: ', 'WARNING: ', 'ERROR: ', 'ALL: ' ];
+    this._sinks = _sinks || new Array<LogSink>();
+    this._level = LogLevel.ALL;
   }
 
   public static validLevel(level: number): level is LogLevel
@@ -74,6 +107,8 @@ export class LoggingService
   * Assign a log level
   *
   * @param level: number Log level (should be one of the levels described in LogLevel)
+  *
+  * @return nothing Messages below this level are not written to any sink, regardless of the level of the sink
   */
   public set logLevel(level: number)
   {
@@ -82,43 +117,64 @@ export class LoggingService
   }
 
  /**
-  * Assign a url to use in order to send log data to a server (otherwise it is only written to console)
+  * Assign a url to use in order to send log data to a server
   *
-  * @param _url: string URL of external service
+  * @param url: string URL of external service
   *
-  * @return Observable<any>
+  * @return nothing The url is assigned to each sink that sends records to a server
   */
   public set logUrl(url: string)
   {
-    if (url != "")
-      this._logURL = url;
+    this._sinks.forEach( (sink: LogSink) =>
+    {
+      if ('url' in sink)
+        sink.url = url;
+    });
   }
 
  /**
-  * Log the supplied message if it is at least as high as the current log level
+  * Access the registered log sinks
+  *
+  * @return Array<LogSink>
+  */
+  public get sinks(): Array<LogSink>
+  {
+    return this._sinks.slice();
+  }
+
+ /**
+  * Log the supplied message, if it is at least as high as the current log level, to each sink whose level is at or
+  * below the level of the message
   *
   * @param level: number Log level of the message
   *
   * @param message: Message to be logged
   *
-  * @return nothing Message is logged to console if level is valid and greater than or equal to currently set log level.  If a URL is provided for message logging,
-  * the message may also be sent to a server.
+  * @param context: Object (optional) Data relevant to the message
+  *
+  * @param source: string (optional) Originator of the message
+  *
+  * @return nothing
   */
-  public log(level: number, message: string): void
+  public log(level: number, message: string, context?: Object, source?: string): void
   {
-    if (LoggingService.validLevel(level) && level >= this._level)
+    if (!LoggingService.validLevel(level) || level < this._level)
+      return;
+
+    const record: LogRecord = {
+      level: level,
+      timestamp: new Date().toISOString(),
+      source: source || '',
+      message: message
+    };
+
+    if (context !== undefined)
+      record.context = context;
+
+    this._sinks.forEach( (sink: LogSink) =>
     {
-      // in reality, we would use a mix of console output and service calls
-      const d: Date     = new Date();
-      const dateAndTime = d.getDate() + "/" + (d.getMonth()+1)  + "/"  + d.getFullYear() + " @ "  + d.getHours() + ":"  + d.getMinutes();
-
-      const outputMsg: string = this._header[level] + " at " + dateAndTime + "  -  " + message;
-      console.log( outputMsg );
-
-      if (this._logURL)
-      {
-        // send logging message to server
-      }
-    }
+      if (level >= sink.level)
+        sink.write(record);
+    });
   }
 }
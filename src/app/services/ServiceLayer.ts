@@ -26,6 +26,14 @@ import { Http, Response } from '@angular/http';
 import { Observable } from 'rxjs/Observable';
 import 'rxjs/add/operator/map';
 import 'rxjs/add/operator/catch';
+import 'rxjs/add/observable/throw';
+
+// calculator model
+import { CalcState } from '../state/definitions/CalcState';
+import { CalcModel, CalcModelError } from '../state/definitions/CalcModel';
+import { ModelSchema               } from '../libs/ModelSchema';
+
+import { environment } from '../../environments/environment';
 
 // logging service
 import {LogLevel      } from './Logging';
@@ -96,7 +104,76 @@ export class ServiceLayer
     }
   }
 
-  private __errHandler( error: Response | any, caught: Observable<any> ): any
+  /**
+   * Save the calculator model contained in the current state
+   *
+   * @param {CalcState} state Current calculator state
+   *
+   * @param {string} id Model id
+   *
+   * @returns {Observable<string>} Id of the saved model
+   */
+  public saveModel(state: CalcState, id: string): Observable<string>
+  {
+    const url: string = this.__modelUrl(id);
+
+    this._logger.log( LogLevel.INFO, "service layer, save model to: " + url );
+
+    let model: CalcModel;
+
+    try
+    {
+      model = this.__toModel(state);
+    }
+    catch (err)
+    {
+      return this.__errHandler(err, undefined);
+    }
+
+    return this._http.post(url, model)
+           .map( () => id )
+           .catch( (err: any, caught: Observable<any>) => this.__errHandler(err, caught) );
+  }
+
+  /**
+   * Load a previously saved calculator model
+   *
+   * @param {string} id Model id
+   *
+   * @returns {Observable<CalcModel>} Model, migrated to the current version; the observable errors if the model is
+   * invalid
+   */
+  public loadModel(id: string): Observable<CalcModel>
+  {
+    const url: string = this.__modelUrl(id);
+
+    this._logger.log( LogLevel.INFO, "service layer, load model from: " + url );
+
+    return this._http.get(url)
+           .map( (response: Response) => ModelSchema.parse(response.json()) )
+           .catch( (err: any, caught: Observable<any>) => this.__errHandler(err, caught) );
+  }
+
+  // model document for the current state, validated before it is saved
+  protected __toModel(state: CalcState): CalcModel
+  {
+    const model: CalcModel              = ModelSchema.toModel(state);
+    const errors: Array<CalcModelError> = ModelSchema.validate(model);
+
+    if (errors.length > 0) {
+      throw new Error( 'INVALID MODEL: ' + ModelSchema.errorsToString(errors) );
+    }
+
+    return model;
+  }
+
+  // url of the model with the supplied id
+  protected __modelUrl(id: string): string
+  {
+    return environment.modelUrl + '/' + id + '.json';
+  }
+
+  protected __errHandler( error: Response | any, caught: Observable<any> ): Observable<any>
   {
     let errMsg: string = "DATA REQUEST FAILED: ";
 
@@ -111,5 +188,7 @@ export class ServiceLayer
       errMsg += error.message ? error.message : error.toString();
 
     this._logger.log(LogLevel.ERROR, errMsg);
+
+    return Observable.throw(errMsg);
   }
 }
@@ -0,0 +1,207 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+// platform imports
+import { Injectable, NgZone, OnDestroy } from '@angular/core';
+
+// rxjs
+import { Observable } from 'rxjs/Observable';
+import { Subject    } from 'rxjs/Subject';
+
+/**
+ * A message from another tab of the calculator
+ */
+export interface TabMessage
+{
+  // id of the tab that posted the message
+  tab: string;
+
+  // time at which the message was posted, in msec since the epoch
+  sent: number;
+
+  // name of the store slice, i.e. 'memory' or 'inputs'
+  slice: string;
+
+  // value of the slice in the posting tab
+  value: any;
+}
+
+/**
+ * Channel between tabs (or windows) of the calculator in the same browser.  Messages are posted on a BroadcastChannel
+ * if the browser supports it, otherwise through storage events on a local storage key.  Either way, a message is only
+ * delivered to other tabs; messages that carry the id of this tab are ignored as a safeguard.  Messages are delivered
+ * inside the Angular zone, so that state changes they cause are detected.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+@Injectable()
+export class TabChannel implements OnDestroy
+{
+  // name of the broadcast channel and the local storage key
+  public static readonly NAME: string = 'qcalc-sync';
+
+  protected _id: string;                                // id of this tab
+  protected _messages: Subject<TabMessage>;             // messages from other tabs
+  protected _channel: any;                              // broadcast channel (null if not supported)
+  protected _onStorage: (event: StorageEvent) => void;  // storage event handler (null if not in use)
+
+ /**
+  * Construct a new tab channel
+  *
+  * @param _zone: NgZone Injected zone in which messages are delivered
+  */
+  constructor(protected _zone: NgZone)
+  {
+    this._id        = Date.now().toString(36) + '-' + Math.random().toString(36).substr(2, 8);
+    this._messages  = new Subject<TabMessage>();
+    this._channel   = null;
+    this._onStorage = null;
+
+    if (typeof window === 'undefined') {
+      return;
+    }
+
+    // BroadcastChannel is not in the dom typings of this Typescript version
+    const w: any = window;
+
+    if (typeof w.BroadcastChannel === 'function')
+    {
+      this._channel           = new w.BroadcastChannel(TabChannel.NAME);
+      this._channel.onmessage = (event: any) => this.__receive(event.data);
+    }
+    else if (typeof localStorage !== 'undefined')
+    {
+      this._onStorage = (event: StorageEvent) =>
+      {
+        if (event.key == TabChannel.NAME && event.newValue) {
+          this.__receive( TabChannel.__parse(event.newValue) );
+        }
+      };
+
+      window.addEventListener('storage', this._onStorage);
+    }
+  }
+
+ /**
+  * Access the id of this tab
+  *
+  * @return string
+  */
+  public get id(): string
+  {
+    return this._id;
+  }
+
+ /**
+  * Access whether or not the browser supports messages between tabs
+  *
+  * @return boolean
+  */
+  public get connected(): boolean
+  {
+    return this._channel != null || this._onStorage != null;
+  }
+
+ /**
+  * Access messages from other tabs
+  *
+  * @return Observable<TabMessage>
+  */
+  public get messages(): Observable<TabMessage>
+  {
+    return this._messages.asObservable();
+  }
+
+ /**
+  * Post the value of a store slice to other tabs
+  *
+  * @param slice: string Name of the slice
+  *
+  * @param value: any Value of the slice, which must be plain data
+  *
+  * @return nothing
+  */
+  public post(slice: string, value: any): void
+  {
+    const message: TabMessage = {tab: this._id, sent: Date.now(), slice: slice, value: value};
+
+    if (this._channel != null)
+    {
+      this._channel.postMessage(message);
+    }
+    else if (this._onStorage != null)
+    {
+      // a storage event is raised in other tabs only if the value changes, which the send time ensures
+      try
+      {
+        localStorage.setItem(TabChannel.NAME, JSON.stringify(message));
+      }
+      catch (err)
+      {
+        // storage is full or disabled; other tabs are not updated, which leaves each tab with its own state
+      }
+    }
+  }
+
+ /**
+  * Angular lifecycle method - on destroy
+  *
+  * @return nothing The channel is closed and no further messages are delivered
+  */
+  public ngOnDestroy(): void
+  {
+    if (this._channel != null)
+    {
+      this._channel.close();
+      this._channel = null;
+    }
+
+    if (this._onStorage != null)
+    {
+      window.removeEventListener('storage', this._onStorage);
+      this._onStorage = null;
+    }
+
+    this._messages.complete();
+  }
+
+  // deliver a message from another tab
+  protected __receive(message: TabMessage): void
+  {
+    if (message == null || typeof message !== 'object' || typeof message.slice !== 'string' || message.tab == this._id) {
+      return;
+    }
+
+    this._zone.run( () => this._messages.next(message) );
+  }
+
+  // parse a message posted through local storage (null if it is not JSON)
+  protected static __parse(text: string): TabMessage
+  {
+    try
+    {
+      return JSON.parse(text);
+    }
+    catch (err)
+    {
+      return null;
+    }
+  }
+}
@@ -22,16 +22,636 @@
  * @version 1.0
  */
 
-export const Q_NONE: string      = '[Calc] None';
-export const Q_ADD: string       = '[Calc] Add';
-export const Q_SUBTRACT: string  = '[Calc] Subtract';
-export const Q_MULTIPLY: string  = '[Calc] Multiply';
-export const Q_DIVIDE: string    = '[Calc] Divide';
-export const Q_CLEAR: string     = '[Calc] Clear';
-export const Q_OP: string        = Q_NONE;
-export const TO_MEMORY: string   = '[Calc] To_Memory';
-export const FROM_MEMORY: string = '[Calc] From_Memory';
-export const TO_Q1: string       = '[Calc] To_Q1';
-export const TO_Q2: string       = '[Calc] To_Q2';
-export const INIT: string        = '[Calc] Init';
-export const STORE: string       = '[Calc] Store';
+import { Action } from '@ngrx/store';
+
+import { QRecord  } from "../definitions/QRecord";
+import { QInputs  } from "../definitions/QInputs";
+import { QMemory, QMemoryStore, QMemoryRecall, QMemoryRename } from "../definitions/QMemory";
+import { QUnaryOp } from "../definitions/QUnaryOp";
+import { QExpressionOp } from "../definitions/QExpressionOp";
+import { TapeEntry } from "../definitions/CalcTape";
+import { CalcDisplay, CalcSync } from "../definitions/CalcSettings";
+import { CalcModel   } from "../definitions/CalcModel";
+
+// action types are left un-annotated so that each retains its string-literal type and may be used as a discriminant
+export const Q_NONE      = '[Calc] None';
+export const Q_ADD       = '[Calc] Add';
+export const Q_SUBTRACT  = '[Calc] Subtract';
+export const Q_MULTIPLY  = '[Calc] Multiply';
+export const Q_DIVIDE    = '[Calc] Divide';
+export const Q_SLERP     = '[Calc] Slerp';
+export const Q_NLERP     = '[Calc] Nlerp';
+export const Q_CLEAR     = '[Calc] Clear';
+export const Q_CONJUGATE = '[Calc] Conjugate';
+export const Q_INVERSE   = '[Calc] Inverse';
+export const Q_NORMALIZE = '[Calc] Normalize';
+export const Q_NORM      = '[Calc] Norm';
+export const Q_EXP       = '[Calc] Exp';
+export const Q_LOG       = '[Calc] Log';
+export const Q_SQRT      = '[Calc] Sqrt';
+export const Q_POW       = '[Calc] Pow';
+
+export const Q_ADD_SCALAR       = '[Calc] Add_Scalar';
+export const Q_SUBTRACT_SCALAR  = '[Calc] Subtract_Scalar';
+export const Q_SCALE            = '[Calc] Scale';
+export const Q_DIVIDE_BY_SCALAR = '[Calc] Divide_By_Scalar';
+export const Q_SCALAR_DIVIDE    = '[Calc] Scalar_Divide';
+
+export const Q_EXPRESSION       = '[Calc] Expression';
+
+export const Q_OP        = Q_NONE;
+export const TO_MEMORY   = '[Calc] To_Memory';
+export const FROM_MEMORY = '[Calc] From_Memory';
+
+export const RENAME_MEMORY = '[Calc] Rename_Memory';
+export const DELETE_MEMORY = '[Calc] Delete_Memory';
+export const CLEAR_MEMORY  = '[Calc] Clear_Memory';
+
+export const TO_Q1       = '[Calc] To_Q1';
+export const TO_Q2       = '[Calc] To_Q2';
+export const TO_SCALAR   = '[Calc] To_Scalar';
+export const INIT        = '[Calc] Init';
+
+export const UNDO          = '[History] Undo';
+export const REDO          = '[History] Redo';
+export const JUMP_TO       = '[History] Jump_To';
+export const HISTORY_DEPTH = '[History] Depth';
+
+export const CLEAR_TAPE       = '[Tape] Clear';
+export const RESTORE_OPERANDS = '[Tape] Restore_Operands';
+
+export const SET_ORDER          = '[Settings] Order';
+export const SET_MULTIPLICATION = '[Settings] Multiplication';
+export const SET_DISPLAY        = '[Settings] Display';
+export const SET_SYNC           = '[Settings] Sync';
+
+export const LOAD_MODEL         = '[Model] Load';
+export const LOAD_MODEL_SUCCESS = '[Model] Load_Success';
+export const LOAD_MODEL_FAILURE = '[Model] Load_Failure';
+export const SAVE_MODEL         = '[Model] Save';
+export const SAVE_MODEL_SUCCESS = '[Model] Save_Success';
+export const SAVE_MODEL_FAILURE = '[Model] Save_Failure';
+
+export const DEBUG_JUMP = '[Debug] Jump';
+
+export const SYNC_MEMORY = '[Sync] Memory';
+export const SYNC_INPUTS = '[Sync] Inputs';
+
+/**
+ * Add the two input quaternions; an optional payload replaces the inputs currently in the store
+ */
+export class QAdd implements Action
+{
+  readonly type = Q_ADD;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload?: QInputs) {}
+}
+
+/**
+ * Subtract the two input quaternions; an optional payload replaces the inputs currently in the store
+ */
+export class QSubtract implements Action
+{
+  readonly type = Q_SUBTRACT;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload?: QInputs) {}
+}
+
+/**
+ * Multiply the two input quaternions in the multiplication convention of the settings (see selectMultiplication); an
+ * optional payload replaces the inputs currently in the store
+ */
+export class QMultiply implements Action
+{
+  readonly type = Q_MULTIPLY;
+  readonly timestamp: number = Date.now();
+
+  constructor(public multiplication: string, public payload?: QInputs) {}
+}
+
+/**
+ * Divide the two input quaternions in the multiplication convention of the settings (see selectMultiplication); an
+ * optional payload replaces the inputs currently in the store
+ */
+export class QDivide implements Action
+{
+  readonly type = Q_DIVIDE;
+  readonly timestamp: number = Date.now();
+
+  constructor(public multiplication: string, public payload?: QInputs) {}
+}
+
+/**
+ * Spherical linear interpolation from the first to the second input at the interpolation parameter, t; an optional
+ * payload replaces the inputs currently in the store
+ */
+export class QSlerp implements Action
+{
+  readonly type = Q_SLERP;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload?: QInputs) {}
+}
+
+/**
+ * Normalized linear interpolation from the first to the second input at the interpolation parameter, t; an optional
+ * payload replaces the inputs currently in the store
+ */
+export class QNlerp implements Action
+{
+  readonly type = Q_NLERP;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload?: QInputs) {}
+}
+
+/**
+ * Conjugate one of the input quaternions
+ */
+export class QConjugate implements Action
+{
+  readonly type = Q_CONJUGATE;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Invert one of the input quaternions
+ */
+export class QInverse implements Action
+{
+  readonly type = Q_INVERSE;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Normalize one of the input quaternions to unit length
+ */
+export class QNormalize implements Action
+{
+  readonly type = Q_NORMALIZE;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Compute the norm (magnitude) of one of the input quaternions; the result is a real quaternion
+ */
+export class QNorm implements Action
+{
+  readonly type = Q_NORM;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Add the scalar input to one of the input quaternions
+ */
+export class QAddScalar implements Action
+{
+  readonly type = Q_ADD_SCALAR;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Subtract the scalar input from one of the input quaternions
+ */
+export class QSubtractScalar implements Action
+{
+  readonly type = Q_SUBTRACT_SCALAR;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Multiply one of the input quaternions by the scalar input
+ */
+export class QScale implements Action
+{
+  readonly type = Q_SCALE;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Divide one of the input quaternions by the scalar input
+ */
+export class QDivideByScalar implements Action
+{
+  readonly type = Q_DIVIDE_BY_SCALAR;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Divide the scalar input by one of the input quaternions
+ */
+export class QScalarDivide implements Action
+{
+  readonly type = Q_SCALAR_DIVIDE;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Reset the calculator inputs, result, and operation
+ */
+export class QClear implements Action
+{
+  readonly type = Q_CLEAR;
+}
+
+/**
+ * Set the first input quaternion directly, i.e. from a rotation
+ */
+export class ToQ1 implements Action
+{
+  readonly type = TO_Q1;
+
+  constructor(public payload: QRecord) {}
+}
+
+/**
+ * Set the second input quaternion directly, i.e. from a rotation
+ */
+export class ToQ2 implements Action
+{
+  readonly type = TO_Q2;
+
+  constructor(public payload: QRecord) {}
+}
+
+/**
+ * Set the calculator scalar directly, i.e. while no operation is active
+ */
+export class ToScalar implements Action
+{
+  readonly type = TO_SCALAR;
+
+  constructor(public payload: number) {}
+}
+
+/**
+ * Initialize the calculator inputs (and possibly the operation) from a previously saved model; the operation is
+ * computed in the supplied multiplication convention, which is that of the settings
+ */
+export class Init implements Action
+{
+  readonly type = INIT;
+
+  constructor(public payload: QInputs, public multiplication: string) {}
+}
+
+/**
+ * Place a quaternion into a memory register
+ */
+export class ToMemory implements Action
+{
+  readonly type = TO_MEMORY;
+
+  constructor(public payload: QMemoryStore) {}
+}
+
+/**
+ * Recall the quaternion in a memory register into one of the inputs
+ */
+export class FromMemory implements Action
+{
+  readonly type = FROM_MEMORY;
+
+  constructor(public payload: QMemoryRecall) {}
+}
+
+/**
+ * Rename a memory register
+ */
+export class RenameMemory implements Action
+{
+  readonly type = RENAME_MEMORY;
+
+  constructor(public payload: QMemoryRename) {}
+}
+
+/**
+ * Delete a memory register (payload is the register name)
+ */
+export class DeleteMemory implements Action
+{
+  readonly type = DELETE_MEMORY;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * Delete all memory registers
+ */
+export class ClearMemory implements Action
+{
+  readonly type = CLEAR_MEMORY;
+}
+
+/**
+ * Restore the inputs and memory prior to the most recent change
+ */
+export class Undo implements Action
+{
+  readonly type = UNDO;
+}
+
+/**
+ * Reapply the most recently undone change
+ */
+export class Redo implements Action
+{
+  readonly type = REDO;
+}
+
+/**
+ * Restore the inputs and memory at an index into the history timeline (past, then present, then future)
+ */
+export class JumpTo implements Action
+{
+  readonly type = JUMP_TO;
+
+  constructor(public payload: number) {}
+}
+
+/**
+ * Set the maximum number of undo steps retained in history
+ */
+export class HistoryDepth implements Action
+{
+  readonly type = HISTORY_DEPTH;
+
+  constructor(public payload: number) {}
+}
+
+/**
+ * Exponential of one of the inputs
+ */
+export class QExp implements Action
+{
+  readonly type = Q_EXP;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Natural logarithm of one of the inputs
+ */
+export class QLog implements Action
+{
+  readonly type = Q_LOG;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Square root of one of the inputs
+ */
+export class QSqrt implements Action
+{
+  readonly type = Q_SQRT;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Raise one of the inputs to the power of the scalar input
+ */
+export class QPow implements Action
+{
+  readonly type = Q_POW;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QUnaryOp) {}
+}
+
+/**
+ * Set the result to the value of an expression over the inputs and memory
+ */
+export class QEvaluate implements Action
+{
+  readonly type = Q_EXPRESSION;
+  readonly timestamp: number = Date.now();
+
+  constructor(public payload: QExpressionOp) {}
+}
+
+/**
+ * Clear the calculation tape
+ */
+export class ClearTape implements Action
+{
+  readonly type = CLEAR_TAPE;
+}
+
+/**
+ * Restore the operands and operation of a calculation tape entry into the inputs; the operation is recomputed in the
+ * supplied multiplication convention, which is that of the settings, since the entry may have been computed in another
+ */
+export class RestoreOperands implements Action
+{
+  readonly type = RESTORE_OPERANDS;
+
+  constructor(public payload: TapeEntry, public multiplication: string) {}
+}
+
+/**
+ * Set the order of quaternion components for display, import and export, 'wxyz' or 'xyzw'
+ */
+export class SetOrder implements Action
+{
+  readonly type = SET_ORDER;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * Set the quaternion multiplication convention, 'hamilton' or 'jpl'
+ */
+export class SetMultiplication implements Action
+{
+  readonly type = SET_MULTIPLICATION;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * Set the display of numbers (decimal places, notation, zero-snapping epsilon and decimal separator)
+ */
+export class SetDisplay implements Action
+{
+  readonly type = SET_DISPLAY;
+
+  constructor(public payload: CalcDisplay) {}
+}
+
+/**
+ * Select the slices of the store (memory and inputs) that are shared with other tabs of the calculator
+ */
+export class SetSync implements Action
+{
+  readonly type = SET_SYNC;
+
+  constructor(public payload: CalcSync) {}
+}
+
+/**
+ * Request that the calculator model with the supplied id be loaded (the request is performed by an effect)
+ */
+export class LoadModel implements Action
+{
+  readonly type = LOAD_MODEL;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * A calculator model has been loaded, migrated and validated
+ */
+export class LoadModelSuccess implements Action
+{
+  readonly type = LOAD_MODEL_SUCCESS;
+
+  constructor(public payload: CalcModel) {}
+}
+
+/**
+ * A calculator model could not be loaded; the payload is the error message
+ */
+export class LoadModelFailure implements Action
+{
+  readonly type = LOAD_MODEL_FAILURE;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * Request that the current calculator state be saved as the model with the supplied id
+ */
+export class SaveModel implements Action
+{
+  readonly type = SAVE_MODEL;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * The calculator model with the payload id has been saved
+ */
+export class SaveModelSuccess implements Action
+{
+  readonly type = SAVE_MODEL_SUCCESS;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * The calculator model could not be saved; the payload is the error message
+ */
+export class SaveModelFailure implements Action
+{
+  readonly type = SAVE_MODEL_FAILURE;
+
+  constructor(public payload: string) {}
+}
+
+/**
+ * Restore the state after an action recorded in the debug session (-1 for the state before the first recorded action)
+ */
+export class DebugJump implements Action
+{
+  readonly type = DEBUG_JUMP;
+
+  constructor(public payload: number) {}
+}
+
+/**
+ * Replace the memory slice with the memory of another tab of the calculator
+ */
+export class SyncMemory implements Action
+{
+  readonly type = SYNC_MEMORY;
+
+  constructor(public payload: QMemory) {}
+}
+
+/**
+ * Replace the operands and operation with the inputs of another tab of the calculator; the operation is recomputed in
+ * the supplied multiplication convention, which is that of the settings of this tab
+ */
+export class SyncInputs implements Action
+{
+  readonly type = SYNC_INPUTS;
+
+  constructor(public payload: QInputs, public multiplication: string) {}
+}
+
+/**
+ * Calculator operations, which are recorded on the calculation tape.  Each is stamped with the time it is created
+ * (rather than reduced), so that reducing it again, i.e. in the Redux DevTools or a debug replay, yields the same state.
+ */
+export type QOperationAction = QAdd | QSubtract | QMultiply | QDivide | QSlerp | QNlerp | QConjugate | QInverse
+                             | QNormalize | QNorm | QAddScalar | QSubtractScalar | QScale | QDivideByScalar
+                             | QScalarDivide | QExp | QLog | QSqrt | QPow | QEvaluate;
+
+/**
+ * Actions handled by the inputs slice of the store
+ */
+export type QInputAction = QAdd | QSubtract | QMultiply | QDivide | QSlerp | QNlerp | QConjugate | QInverse | QNormalize | QNorm
+                         | QAddScalar | QSubtractScalar | QScale | QDivideByScalar | QScalarDivide | QExp | QLog | QSqrt
+                         | QPow | ToQ1 | ToQ2 | ToScalar
+                         | QEvaluate | QClear | Init | RestoreOperands | SetMultiplication | SyncInputs;
+
+/**
+ * Actions handled by the memory slice of the store
+ */
+export type QMemoryAction = ToMemory | FromMemory | RenameMemory | DeleteMemory | ClearMemory | SyncMemory;
+
+/**
+ * Actions handled by the history meta-reducer
+ */
+export type QHistoryAction = Undo | Redo | JumpTo | HistoryDepth;
+
+/**
+ * Actions handled by the calculation tape slice of the store
+ */
+export type QTapeAction = ClearTape;
+
+/**
+ * Actions handled by the settings slice of the store
+ */
+export type QSettingsAction = SetOrder | SetMultiplication | SetDisplay | SetSync;
+
+/**
+ * Actions handled by the persistence slice of the store and the model effects
+ */
+export type QModelAction = LoadModel | LoadModelSuccess | LoadModelFailure | SaveModel | SaveModelSuccess | SaveModelFailure;
+
+/**
+ * Actions handled by the debug session restorer
+ */
+export type QDebugAction = DebugJump;
+
+/**
+ * All calculator actions
+ */
+export type CalcAction = QInputAction | QMemoryAction | QHistoryAction | QTapeAction | QSettingsAction | QModelAction
+                       | QDebugAction;
@@ -0,0 +1,46 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Model the undo/redo history slice of the global store.  The present is the current inputs and memory slices; the
+ * past and future are snapshots of those slices.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { QInputs } from "./QInputs";
+import { QMemory } from "./QMemory";
+
+export interface CalcSnapshot
+{
+  inputs: QInputs;
+
+  memory: QMemory;
+}
+
+export interface CalcHistory
+{
+  // snapshots prior to the present, oldest first
+  past: Array<CalcSnapshot>;
+
+  // snapshots that were undone, next (redo) first
+  future: Array<CalcSnapshot>;
+
+  // maximum number of past snapshots
+  depth: number;
+}
@@ -0,0 +1,70 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Serialized calculator model, i.e. the document that is saved to and loaded from a service.  The result can be
+ * computed from the inputs and operation, so it is not saved.  Documents are versioned; see ModelSchema for validation
+ * and migration of older versions.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+export interface CalcModel
+{
+  // schema version of the document
+  version: number;
+
+  // order of components in each quaternion, 'wxyz' or 'xyzw'
+  order: string;
+
+  // multiplication convention of the operation, 'hamilton' or 'jpl'
+  multiplication: string;
+
+  // quaternions are [w, i, j, k] or [i, j, k, w], depending on the component order
+  q1: Array<number>;
+
+  q2: Array<number>;
+
+  // calculator action of the current operation
+  op: string;
+
+  // operand ('q1' or 'q2') of a unary or scalar operation, otherwise empty
+  operand: string;
+
+  // scalar of a scalar operation or power
+  scalar: number;
+
+  // interpolation parameter of slerp or nlerp
+  t: number;
+
+  // text of the current expression (empty unless the operation is an expression)
+  expression: string;
+
+  // memory registers by name
+  memory: {[register: string]: Array<number>};
+}
+
+/**
+ * A single validation error; field is a path into the document such as 'q2[3]' or 'memory.M1'
+ */
+export interface CalcModelError
+{
+  field: string;
+
+  message: string;
+}
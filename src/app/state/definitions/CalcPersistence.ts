@@ -0,0 +1,39 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Model the persistence slice of the global store, i.e. the status of loading and saving the calculator model
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+export interface CalcPersistence
+{
+  action: string;
+
+  // id of the model that was most recently requested
+  id: string;
+
+  // is a load or save in progress?
+  loading: boolean;
+
+  saving: boolean;
+
+  // message of the most recent failure, empty if the most recent request succeeded
+  error: string;
+}
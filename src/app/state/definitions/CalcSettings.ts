@@ -0,0 +1,68 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Model the settings slice of the global store, i.e. user-selected conventions that apply across the calculator
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+/**
+ * Display of numbers throughout the calculator
+ */
+export interface CalcDisplay
+{
+  // number of decimal places (significant digits after the point in scientific notation)
+  decimals: number;
+
+  // 'fixed', 'scientific', or 'auto' (fixed with trailing zeros removed, scientific for very large or small values)
+  notation: string;
+
+  // values smaller in magnitude than epsilon are displayed as zero
+  epsilon: number;
+
+  // decimal separator, '.', ',' or 'locale' for the separator of the browser locale
+  separator: string;
+}
+
+/**
+ * Slices of the store that are shared with other tabs of the calculator (in the same browser)
+ */
+export interface CalcSync
+{
+  memory: boolean;
+
+  inputs: boolean;
+}
+
+export interface CalcSettings
+{
+  action: string;
+
+  // order of components when a quaternion is displayed, imported or exported as a list, 'wxyz' or 'xyzw'
+  order: string;
+
+  // quaternion multiplication convention, 'hamilton' or 'jpl', which is not stored elsewhere (see selectMultiplication)
+  multiplication: string;
+
+  // number display
+  display: CalcDisplay;
+
+  // slices shared across tabs
+  sync: CalcSync;
+}
@@ -22,21 +22,59 @@
  *
  * @version 1.0
  */
-import { QInputs } from "./QInputs";
-import { QMemory } from "./QMemory";
+import { QInputs     } from "./QInputs";
+import { QMemory     } from "./QMemory";
+import { CalcHistory } from "./CalcHistory";
+import { CalcTape    } from "./CalcTape";
+import { CalcSettings } from "./CalcSettings";
+import { CalcPersistence } from "./CalcPersistence";
 
 export interface CalcState
 {
   inputs: QInputs;
 
   memory: QMemory;
+
+  history: CalcHistory;
+
+  tape: CalcTape;
+
+  settings: CalcSettings;
+
+  persistence: CalcPersistence;
 }
 
-import { ActionReducerMap } from '@ngrx/store';
+import { ActionReducerMap, MetaReducer } from '@ngrx/store';
 import {inputReducer, memoryReducer} from "../reducers/quaternion.reducers";
+import {historyReducer, undoable} from "../reducers/history.reducers";
+import {tapeReducer, taped} from "../reducers/tape.reducers";
+import {settingsReducer} from "../reducers/settings.reducers";
+import {persistenceReducer} from "../reducers/persistence.reducers";
+import {frozen} from "../reducers/freeze.reducers";
+import {restorer} from "../reducers/debug.reducers";
+import {DebugSession} from "../../services/DebugSession";
 
 export const quaternionCalcReducers: ActionReducerMap<CalcState> =
 {
   inputs: inputReducer,
-  memory: memoryReducer
+  memory: memoryReducer,
+  history: historyReducer,
+  tape: tapeReducer,
+  settings: settingsReducer,
+  persistence: persistenceReducer
 };
+
+export const quaternionMetaReducers: Array< MetaReducer<CalcState> > = [undoable, taped];
+
+/**
+ * Meta-reducers of the calculator store, with the debug restorer outside undo and redo so that a restored state is not
+ * a new step, and the freeze check outermost so that it covers every change to the state
+ *
+ * @param {DebugSession} session Injected debug session
+ *
+ * @returns {Array<MetaReducer<CalcState>>}
+ */
+export function calcMetaReducers(session: DebugSession): Array< MetaReducer<CalcState> >
+{
+  return [frozen, restorer(session)].concat(quaternionMetaReducers);
+}
@@ -0,0 +1,64 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Model the calculation tape slice of the global store, i.e. a record of each completed operation
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { QRecord } from "./QRecord";
+
+export interface TapeEntry
+{
+  // unique (increasing) entry id
+  id: number;
+
+  // time of the operation in msec since the epoch
+  timestamp: number;
+
+  // calculator action of the operation
+  op: string;
+
+  // operand ('q1' or 'q2') of a unary or scalar operation, otherwise empty
+  operand: string;
+
+  // text of an evaluated expression, otherwise empty
+  expression: string;
+
+  q1: QRecord;
+
+  q2: QRecord;
+
+  scalar: number;
+
+  t: number;
+
+  result: QRecord;
+}
+
+export interface CalcTape
+{
+  action: string;
+
+  // completed operations, oldest first
+  entries: Array<TapeEntry>;
+
+  // id of the next entry
+  next: number;
+}
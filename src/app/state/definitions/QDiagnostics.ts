@@ -0,0 +1,35 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Numerical diagnostics of a calculator result.  A result is singular if its divisor is so close to zero that the
+ * Typescript Math Toolkit substitutes a divisor of one (so the result is meaningless) or if it is the logarithm (or a
+ * negative power) of zero, near-singular if the divisor is small enough that the result is poorly conditioned, and
+ * non-finite if a computed component overflowed or is not a number (a stored result holds only finite values, so the
+ * component retains its prior value).
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export interface QDiagnostics
+{
+  singular: boolean;
+
+  nearSingular: boolean;
+
+  nonFinite: boolean;
+}
@@ -0,0 +1,42 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Payload for an evaluated expression; expressions refer to memory registers, so they are evaluated before dispatch
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { QRecord      } from "./QRecord";
+import { QInputs      } from "./QInputs";
+import { QDiagnostics } from "./QDiagnostics";
+
+export interface QExpressionOp
+{
+  // expression text, i.e. (q1 * q2) / conj(q1)
+  expression: string;
+
+  // value of the expression
+  result: QRecord;
+
+  // optional diagnostics raised by a division or inversion in the expression
+  diagnostics?: QDiagnostics;
+
+  // optional inputs that replace those currently in the store
+  inputs?: QInputs;
+}
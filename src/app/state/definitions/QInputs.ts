@@ -15,46 +15,36 @@
  */
 
 /**
- * Model QInputs section of the global store
+ * Model QInputs section of the global store, which is also the payload of an operation.  Quaternions are plain
+ * records; see QRecords.inputs() for default inputs.
  *
  * @author Jim Armstrong (www.algorithmist.net)
  *
  * @version 1.0
  */
-import { Q } from "./Q";
+import { QRecord      } from "./QRecord";
+import { QDiagnostics } from "./QDiagnostics";
 
-export class QInputs
+export interface QInputs
 {
-  public q1: Q;
-  public q2: Q;
-  public result: Q;
-  public op: string;
-  public action: string;
-
-  constructor()
-  {
-    this.q1     = new Q(0, 0, 0, 0);
-    this.q2     = new Q(0, 0, 0, 0);
-    this.result = new Q(0, 0, 0, 0);
-    this.op     = 'none';
-    this.action = 'none';
-  }
-
-  /**
-   * Clone this container
-   *
-   * @returns {QInputs}
-   */
-  public clone(): QInputs
-  {
-    const q: QInputs = new QInputs();
-
-    q.q1     = this.q1.clone();
-    q.q2     = this.q2.clone();
-    q.result = this.result.clone();
-    q.op     = this.op;
-    q.action = this.action;
-
-    return q;
-  }
+  q1: QRecord;
+
+  q2: QRecord;
+
+  result: QRecord;
+
+  scalar: number;
+
+  t: number;
+
+  op: string;
+
+  // operand ('q1' or 'q2') of a unary or scalar operation, otherwise empty
+  operand: string;
+
+  expression: string;
+
+  diagnostics: QDiagnostics;
+
+  action: string;
 }
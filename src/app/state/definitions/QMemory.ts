@@ -22,13 +22,57 @@
  * @version 1.0
  */
 
-import { Q } from "./Q";
+import { QRecord } from "./QRecord";
+
+/**
+ * Named memory registers
+ */
+export interface QRegisters
+{
+  [name: string]: QRecord;
+}
 
 export interface QMemory
 {
   action: string;
 
+  // id of the input ('Q_1' or 'Q_2') involved in the most recent store or recall
+  id: string;
+
+  // name of the register involved in the most recent action
+  register: string;
+
+  registers: QRegisters;
+}
+
+/**
+ * Payload to store an input quaternion into a register (a new register is created if the name is empty)
+ */
+export interface QMemoryStore
+{
+  register: string;
+
   id: string;
 
-  memory: Q;
+  memory: QRecord;
+}
+
+/**
+ * Payload to recall a register into an input
+ */
+export interface QMemoryRecall
+{
+  register: string;
+
+  id: string;
+}
+
+/**
+ * Payload to rename a register
+ */
+export interface QMemoryRename
+{
+  register: string;
+
+  name: string;
 }
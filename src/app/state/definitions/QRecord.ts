@@ -0,0 +1,35 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * A quaternion as it is held in the global store; a plain record of its components with no behavior, so that it is
+ * frozen, compared and serialized like any other data in the store.  The math layer works with Q and TSMT$Quaternion
+ * (see QRecords for conversion to and from a record).
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+export interface QRecord
+{
+  readonly w: number;
+
+  readonly i: number;
+
+  readonly j: number;
+
+  readonly k: number;
+}
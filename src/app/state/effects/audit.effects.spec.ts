@@ -0,0 +1,84 @@
+import { Action, combineReducers, ActionReducer } from '@ngrx/store';
+import { Actions } from '@ngrx/effects';
+
+import { Subject         } from 'rxjs/Subject';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { AuditEffects } from './audit.effects';
+import { CalcState    } from '../definitions/CalcState';
+import { QRecords     } from '../../libs/QRecords';
+import { AuditTrail   } from '../../services/AuditTrail';
+
+import { LoggingService, LogLevel, LogRecord } from '../../services/Logging';
+import { ConsoleLogSink, MemoryLogSink       } from '../../services/LogSinks';
+
+import { quaternionCalcReducers, quaternionMetaReducers } from '../definitions/CalcState';
+
+describe('AuditEffects', () => {
+  let reducer: ActionReducer<CalcState>;
+  let state: CalcState;
+  let store: BehaviorSubject<CalcState>;
+  let actions: Subject<Action>;
+  let audit: AuditTrail;
+  let memory: MemoryLogSink;
+
+  // reduce an action, then deliver it to the effects as the store does
+  const dispatch = (action: Action) =>
+  {
+    state = reducer(state, action);
+    store.next(state);
+    actions.next(action);
+  };
+
+  beforeEach(() => {
+    spyOn(console, 'log');
+
+    memory = new MemoryLogSink();
+    audit  = new AuditTrail( new LoggingService([new ConsoleLogSink(), memory]) );
+
+    reducer = quaternionMetaReducers
+      .reduceRight( (r: ActionReducer<CalcState>, meta: any) => meta(r), combineReducers(<any> quaternionCalcReducers) );
+
+    state   = reducer(undefined, {type: '@ngrx/store/init'});
+    store   = new BehaviorSubject<CalcState>(state);
+    actions = new Subject<Action>();
+
+    new AuditEffects(new Actions(actions), audit, <any> store).recorded$.subscribe();
+  });
+
+  it('should record and log a reduced action with its changes', () => {
+    dispatch( new CalcActions.ToQ1(QRecords.create(1, 2, 3, 4)) );
+
+    const r: LogRecord = memory.records[0];
+
+    expect(audit.entries.length).toBe(1);
+    expect(audit.entries[0].after.q1).toEqual([1, 2, 3, 4]);
+
+    expect(memory.records.length).toBe(1);
+    expect(r.level).toBe(LogLevel.ALL);
+    expect(r.message).toBe(CalcActions.TO_Q1);
+    expect(r.source).toBe('AuditTrail');
+    expect(r.context['changes']['inputs.q1'].after).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should not record a state that is recomputed without an action', () => {
+    state = reducer(state, new CalcActions.ToQ1(QRecords.create(1, 2, 3, 4)));
+    store.next(state);
+
+    expect(audit.entries.length).toBe(0);
+
+    dispatch( new CalcActions.ToQ2(QRecords.create(0, 0, 1, 0)) );
+
+    expect(audit.entries.length).toBe(1);
+    expect(Object.keys(memory.records[0].context['changes'])).toEqual(['inputs.q2']);
+  });
+
+  it('should not write the audit trail to the console by default', () => {
+    dispatch( new CalcActions.ToQ1(QRecords.create(1, 2, 3, 4)) );
+
+    expect(memory.records.length).toBe(1);
+    expect(console.log).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Effects that record the audit trail.  Each dispatched action is recorded once it is reduced, and logged with the
+ * changes between the states of the store before and after it.  A state the Redux DevTools recompute without a
+ * dispatch is not an action, so it is not recorded again.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+// platform imports
+import { Injectable } from '@angular/core';
+
+import { Action, Store   } from '@ngrx/store';
+import { Actions, Effect } from '@ngrx/effects';
+
+// rxjs
+import { Observable } from 'rxjs/Observable';
+import 'rxjs/add/operator/do';
+import 'rxjs/add/operator/pairwise';
+import 'rxjs/add/operator/withLatestFrom';
+
+// audit trail
+import { AuditTrail } from '../../services/AuditTrail';
+
+// calculator state
+import { CalcState } from '../definitions/CalcState';
+
+@Injectable()
+export class AuditEffects
+{
+  /**
+   * Record and log each reduced action with the states before and after it
+   */
+  @Effect({dispatch: false})
+  public recorded$: Observable<[Action, [CalcState, CalcState]]> = this._actions
+    .withLatestFrom( this._store.pairwise() )
+    .do( ([action, states]: [Action, [CalcState, CalcState]]) => this._audit.record(action, states[0], states[1]) );
+
+  constructor(protected _actions: Actions, protected _audit: AuditTrail, protected _store: Store<CalcState>)
+  {
+    // empty
+  }
+}
@@ -0,0 +1,262 @@
+import { Action, combineReducers, ActionReducer } from '@ngrx/store';
+import { Actions } from '@ngrx/effects';
+
+import { Observable } from 'rxjs/Observable';
+import 'rxjs/add/observable/of';
+import 'rxjs/add/observable/throw';
+import 'rxjs/add/operator/toArray';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { ModelEffects } from './model.effects';
+import { CalcModel    } from '../definitions/CalcModel';
+import { CalcState    } from '../definitions/CalcState';
+import { QInputs      } from '../definitions/QInputs';
+import { ModelSchema  } from '../../libs/ModelSchema';
+import { QRecords     } from '../../libs/QRecords';
+import { QCalc        } from '../../libs/QCalc';
+import { QExpression  } from '../../libs/QExpression';
+import { QRecord      } from '../definitions/QRecord';
+
+import { quaternionCalcReducers, quaternionMetaReducers } from '../definitions/CalcState';
+
+const MODEL: CalcModel = {
+  version: 5,
+  order: 'xyzw',
+  multiplication: 'jpl',
+  q1: [0, 0, 1, 0],
+  q2: [1, 0, 0, 0],
+  op: CalcActions.Q_MULTIPLY,
+  operand: '',
+  scalar: 1,
+  t: 0.5,
+  expression: '',
+  memory: {M1: [0, 1, 0, 0], Spin: [0, 0, 1, 0]}
+};
+
+// service layer that answers every request from the supplied observables
+function service(load: Observable<CalcModel>, save: Observable<string>): any
+{
+  return {
+    loadModel: (id: string) => load,
+    saveModel: (state: CalcState, id: string) => save,
+    logMessage: (level: number, message: string) => {}
+  };
+}
+
+// inputs of an operation with distinct operands, scalar and interpolation parameter
+function operands(scalar: number, t: number): QInputs
+{
+  const qi: QInputs = QRecords.inputs();
+  qi.q1             = QRecords.create(1, 2, -1, 0.5);
+  qi.q2             = QRecords.create(0, 0.5, 1, -2);
+  qi.scalar         = scalar;
+  qi.t              = t;
+
+  return qi;
+}
+
+function run(effect: Observable<Action>): Array<Action>
+{
+  let emitted: Array<Action> = [];
+  effect.toArray().subscribe( (actions: Array<Action>) => emitted = actions );
+
+  return emitted;
+}
+
+describe('ModelEffects', () => {
+  const state: any = {};
+
+  it('should map a loaded model to LOAD_MODEL_SUCCESS', () => {
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModel('model'))),
+                                     service(Observable.of(MODEL), null), <any> Observable.of(state));
+
+    const actions: Array<Action> = run(effects.load$);
+
+    expect(actions.length).toBe(1);
+    expect(actions[0].type).toBe(CalcActions.LOAD_MODEL_SUCCESS);
+    expect((<CalcActions.LoadModelSuccess> actions[0]).payload).toBe(MODEL);
+  });
+
+  it('should map a failed load to LOAD_MODEL_FAILURE with the error message', () => {
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModel('model'))),
+                                     service(Observable.throw('DATA REQUEST FAILED: 404'), null), <any> Observable.of(state));
+
+    const actions: Array<Action> = run(effects.load$);
+
+    expect(actions.length).toBe(1);
+    expect(actions[0].type).toBe(CalcActions.LOAD_MODEL_FAILURE);
+    expect((<CalcActions.LoadModelFailure> actions[0]).payload).toBe('DATA REQUEST FAILED: 404');
+  });
+
+  it('should restore the convention and memory of a loaded model before its inputs', () => {
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModelSuccess(MODEL))),
+                                     service(null, null), <any> Observable.of(state));
+
+    const actions: Array<Action> = run(effects.loaded$);
+
+    expect( actions.map( (a: Action) => a.type ) ).toEqual([CalcActions.SET_MULTIPLICATION, CalcActions.CLEAR_MEMORY,
+      CalcActions.TO_MEMORY, CalcActions.TO_MEMORY, CalcActions.INIT]);
+
+    expect((<CalcActions.SetMultiplication> actions[0]).payload).toBe('jpl');
+    expect((<CalcActions.ToMemory> actions[3]).payload.register).toBe('Spin');
+    expect((<CalcActions.ToMemory> actions[3]).payload.memory.k).toBe(1);
+
+    const qi: QInputs = (<CalcActions.Init> actions[4]).payload;
+    expect([qi.q1.w, qi.q1.i, qi.q1.j, qi.q1.k]).toEqual([0, 0, 0, 1]);
+    expect(qi.op).toBe(CalcActions.Q_MULTIPLY);
+  });
+
+  it('should evaluate an expression of a loaded model over its memory registers', () => {
+    const model: CalcModel = Object.assign({}, MODEL, {op: CalcActions.Q_EXPRESSION, expression: 'q1 * M1'});
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModelSuccess(model))),
+                                     service(null, null), <any> Observable.of(state));
+
+    const actions: Array<Action> = run(effects.loaded$);
+    const last: CalcActions.QEvaluate = <CalcActions.QEvaluate> actions[actions.length-1];
+
+    expect(last.type).toBe(CalcActions.Q_EXPRESSION);
+
+    // k * j in the JPL convention is the Hamilton product j * k = i
+    expect([last.payload.result.w, last.payload.result.i, last.payload.result.j, last.payload.result.k]).toEqual([0, 1, 0, 0]);
+  });
+
+  it('should leave an expression that can not be evaluated unevaluated', () => {
+    const model: CalcModel = Object.assign({}, MODEL, {op: CalcActions.Q_EXPRESSION, expression: 'q1 * M9'});
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModelSuccess(model))),
+                                     service(null, null), <any> Observable.of(state));
+
+    const actions: Array<Action> = run(effects.loaded$);
+
+    expect(actions[actions.length-1].type).toBe(CalcActions.INIT);
+  });
+
+  it('should report a model that can not be mapped into the store as a failure, and continue to load models', () => {
+    const model: CalcModel = Object.assign({}, MODEL, {op: CalcActions.Q_EXPRESSION, expression: 'q1 * M1'});
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModelSuccess(model),
+                                                               new CalcActions.LoadModelSuccess(MODEL))),
+                                     service(null, null), <any> Observable.of(state));
+
+    spyOn(QExpression, 'evaluate').and.throwError('registers are not available');
+
+    const actions: Array<Action> = run(effects.loaded$);
+
+    expect(actions[0].type).toBe(CalcActions.LOAD_MODEL_FAILURE);
+    expect((<CalcActions.LoadModelFailure> actions[0]).payload).toBe('registers are not available');
+    expect(actions[actions.length-1].type).toBe(CalcActions.INIT);
+  });
+
+  it('should save the current state and report success or failure', () => {
+    let saved: any = null;
+
+    const svc: any = service(null, Observable.of('model'));
+    svc.saveModel  = (s: CalcState, id: string) => { saved = s; return Observable.of(id); };
+
+    let effects = new ModelEffects(new Actions(Observable.of(new CalcActions.SaveModel('model'))), svc, <any> Observable.of(state));
+    let actions: Array<Action> = run(effects.save$);
+
+    expect(saved).toBe(state);
+    expect(actions.map( (a: Action) => a.type )).toEqual([CalcActions.SAVE_MODEL_SUCCESS]);
+
+    effects = new ModelEffects(new Actions(Observable.of(new CalcActions.SaveModel('model'))),
+                               service(null, Observable.throw('INVALID MODEL')), <any> Observable.of(state));
+    actions = run(effects.save$);
+
+    expect(actions.map( (a: Action) => a.type )).toEqual([CalcActions.SAVE_MODEL_FAILURE]);
+    expect((<CalcActions.SaveModelFailure> actions[0]).payload).toBe('INVALID MODEL');
+  });
+});
+
+describe('ModelEffects round trip', () => {
+  let reducer: ActionReducer<CalcState>;
+
+  // state after a sequence of actions, starting from the initial state
+  const reduce = (actions: Array<Action>): CalcState =>
+    actions.reduce( (s: CalcState, a: Action) => reducer(s, a), reducer(undefined, {type: '@ngrx/store/init'}) );
+
+  // save a state as a (serialized) model, then load it into a new store
+  const roundTrip = (state: CalcState): CalcState =>
+  {
+    const model: CalcModel  = ModelSchema.parse( JSON.parse(JSON.stringify(ModelSchema.toModel(state))) );
+    const effects           = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModelSuccess(model))),
+                                               service(null, null), <any> Observable.of({}));
+
+    return reduce( run(effects.loaded$) );
+  };
+
+  const expectRestored = (state: CalcState) =>
+  {
+    const loaded: CalcState = roundTrip(state);
+
+    expect(loaded.inputs.op).toBe(state.inputs.op);
+    expect(loaded.inputs.operand).toBe(state.inputs.operand);
+    expect(loaded.inputs.scalar).toBe(state.inputs.scalar);
+    expect(loaded.inputs.t).toBe(state.inputs.t);
+    expect(loaded.inputs.result).toEqual(state.inputs.result);
+    expect(loaded.inputs.diagnostics).toEqual(state.inputs.diagnostics);
+  };
+
+  beforeEach(() => {
+    reducer = quaternionMetaReducers
+      .reduceRight( (r: ActionReducer<CalcState>, meta: any) => meta(r), combineReducers(<any> quaternionCalcReducers) );
+  });
+
+  it('should restore a binary operation in the convention and component order of the model', () => {
+    expectRestored( reduce([new CalcActions.SetOrder('xyzw'), new CalcActions.SetMultiplication('jpl'),
+                            new CalcActions.QDivide( 'jpl', operands(1, 0.5) )]) );
+  });
+
+  it('should restore an interpolation with its parameter', () => {
+    expectRestored( reduce([new CalcActions.QSlerp( operands(1, 0.25) )]) );
+    expectRestored( reduce([new CalcActions.QNlerp( operands(1, 0.8) )]) );
+  });
+
+  it('should restore a unary operation applied to q2', () => {
+    expectRestored( reduce([new CalcActions.QInverse({id: 'q2', inputs: operands(1, 0.5)})]) );
+    expectRestored( reduce([new CalcActions.QLog({id: 'q2', inputs: operands(1, 0.5)})]) );
+  });
+
+  it('should restore a scalar operation with its scalar', () => {
+    expectRestored( reduce([new CalcActions.QPow({id: 'q2', inputs: operands(3, 0.5)})]) );
+    expectRestored( reduce([new CalcActions.QScalarDivide({id: 'q1', inputs: operands(-2.5, 0.5)})]) );
+  });
+
+  it('should restore an expression over the memory of the model', () => {
+    const qi: QInputs = operands(1, 0.5);
+    const m1: QRecord = QRecords.create(0, 0, 1, 0);
+
+    const state: CalcState = reduce([
+      new CalcActions.ToMemory({register: 'M1', id: 'Q_1', memory: m1}),
+      new CalcActions.QEvaluate({expression: 'q1 * M1', result: QRecords.from( QCalc.multiply(qi.q1, m1) ), inputs: qi})
+    ]);
+
+    expect( roundTrip(state).inputs.result ).toEqual(state.inputs.result);
+  });
+
+  it('should replace the memory registers with those of the model', () => {
+    const state: CalcState = reduce([new CalcActions.ToMemory({register: 'Old', id: 'Q_1', memory: QRecords.create(1, 0, 0, 0)}),
+                                     new CalcActions.QAdd( operands(1, 0.5) )]);
+
+    expect( Object.keys(state.memory.registers) ).toEqual(['Old']);
+
+    const effects = new ModelEffects(new Actions(Observable.of(new CalcActions.LoadModelSuccess(MODEL))),
+                                     service(null, null), <any> Observable.of({}));
+
+    const loaded: CalcState = run(effects.loaded$).reduce( (s: CalcState, a: Action) => reducer(s, a), state );
+
+    expect( Object.keys(loaded.memory.registers) ).toEqual(['M1', 'Spin']);
+  });
+
+  it('should migrate a version 4 model to the calculator defaults, with an operation applied to q1', () => {
+    const model: CalcModel = ModelSchema.parse({version: 4, order: 'wxyz', multiplication: 'hamilton', q1: [1, 0, 0, 0],
+                                                q2: [0, 1, 0, 0], op: CalcActions.Q_POW, expression: '', memory: {}});
+
+    expect([model.version, model.scalar, model.t, model.operand]).toEqual([5, 1, 0.5, 'q1']);
+  });
+
+  it('should reject a unary operation without an operand', () => {
+    const model: Object = Object.assign({}, MODEL, {op: CalcActions.Q_SQRT, scalar: NaN});
+
+    expect( ModelSchema.validate(model).map( (e: any) => e.field ) ).toEqual(['operand', 'scalar']);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Effects that load and save the calculator model through the service layer.  Components dispatch LOAD_MODEL and
+ * SAVE_MODEL; the outcome of each request is dispatched as a success or failure action, and a loaded model is mapped
+ * into the store as the same actions a user would dispatch to re-create it.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+// platform imports
+import { Injectable } from '@angular/core';
+
+import { Action, Store    } from '@ngrx/store';
+import { Actions, Effect  } from '@ngrx/effects';
+
+// rxjs
+import { Observable } from 'rxjs/Observable';
+import 'rxjs/add/observable/of';
+import 'rxjs/add/observable/from';
+import 'rxjs/add/observable/defer';
+import 'rxjs/add/operator/map';
+import 'rxjs/add/operator/catch';
+import 'rxjs/add/operator/switchMap';
+import 'rxjs/add/operator/mergeMap';
+import 'rxjs/add/operator/withLatestFrom';
+
+// service layer and logging
+import { ServiceLayer } from '../../services/ServiceLayer';
+import { LogLevel     } from '../../services/Logging';
+
+// calculator state
+import * as CalcActions from '../actions/CalcActions';
+
+import { CalcState   } from '../definitions/CalcState';
+import { CalcModel   } from '../definitions/CalcModel';
+import { QInputs     } from '../definitions/QInputs';
+import { QRegisters  } from '../definitions/QMemory';
+import { QDiagnostics } from '../definitions/QDiagnostics';
+import { ModelSchema } from '../../libs/ModelSchema';
+import { QRecords    } from '../../libs/QRecords';
+import { QExpression, QExpressionError } from '../../libs/QExpression';
+
+@Injectable()
+export class ModelEffects
+{
+  /**
+   * Load the requested model; the service layer migrates and validates the model, so that any problem is a failure
+   */
+  @Effect()
+  public load$: Observable<Action> = this._actions.ofType(CalcActions.LOAD_MODEL)
+    .switchMap( (action: CalcActions.LoadModel) => this._service.loadModel(action.payload)
+      .map( (model: CalcModel) => new CalcActions.LoadModelSuccess(model) )
+      .catch( (err: string) => Observable.of( new CalcActions.LoadModelFailure(err) ) )
+    );
+
+  /**
+   * Map a loaded model into the store; a model that can not be mapped is a failure, which leaves the store unchanged
+   */
+  @Effect()
+  public loaded$: Observable<Action> = this._actions.ofType(CalcActions.LOAD_MODEL_SUCCESS)
+    .mergeMap( (action: CalcActions.LoadModelSuccess) =>
+      Observable.defer( () => Observable.from( ModelEffects.__toActions(action.payload) ) )
+        .catch( (err: any) => Observable.of( new CalcActions.LoadModelFailure(err instanceof Error ? err.message : String(err)) ) )
+    );
+
+  /**
+   * Save the current state as the requested model
+   */
+  @Effect()
+  public save$: Observable<Action> = this._actions.ofType(CalcActions.SAVE_MODEL)
+    .withLatestFrom(this._store)
+    .switchMap( ([action, state]: [CalcActions.SaveModel, CalcState]) => this._service.saveModel(state, action.payload)
+      .map( (id: string) =>
+      {
+        this._service.logMessage(LogLevel.INFO, 'calculator model saved: ' + id);
+
+        return new CalcActions.SaveModelSuccess(id);
+      })
+      .catch( (err: string) => Observable.of( new CalcActions.SaveModelFailure(err) ) )
+    );
+
+  constructor(protected _actions: Actions, protected _service: ServiceLayer, protected _store: Store<CalcState>)
+  {
+    // empty
+  }
+
+  // actions that re-create a (migrated and validated) model in the store
+  protected static __toActions(model: CalcModel): Array<Action>
+  {
+    // the operation is computed in the multiplication convention of the model
+    const actions: Array<Action> = [new CalcActions.SetMultiplication(model.multiplication)];
+
+    // the registers of the model replace (rather than merge with) those in memory
+    actions.push( new CalcActions.ClearMemory() );
+
+    // the model does not record which input was placed into memory
+    const registers: QRegisters = {};
+
+    Object.keys(model.memory).forEach( (name: string) =>
+    {
+      registers[name] = ModelSchema.toQ(model, model.memory[name]);
+
+      actions.push( new CalcActions.ToMemory({register: name, id: '', memory: registers[name]}) );
+    });
+
+    const qi: QInputs = QRecords.inputs();
+
+    // result can be computed from inputs, so there is no need to store it
+    qi.q1 = ModelSchema.toQ(model, model.q1);
+    qi.q2 = ModelSchema.toQ(model, model.q2);
+    qi.op = model.op;
+
+    qi.operand = model.operand;
+    qi.scalar  = model.scalar;
+    qi.t       = model.t;
+
+    qi.expression = model.expression;
+
+    actions.push( new CalcActions.Init(qi, model.multiplication) );
+
+    // an expression is not computed on init, since it may refer to the restored memory registers
+    if (qi.op == CalcActions.Q_EXPRESSION && qi.expression != '') {
+      ModelEffects.__evaluate(qi, model.multiplication, registers, actions);
+    }
+
+    return actions;
+  }
+
+  protected static __evaluate(qi: QInputs, multiplication: string, registers: QRegisters, actions: Array<Action>): void
+  {
+    const diagnostics: QDiagnostics = QRecords.diagnostics();
+
+    try
+    {
+      actions.push( new CalcActions.QEvaluate({
+        expression: qi.expression,
+        result: QRecords.from( QExpression.evaluate(qi.expression, {
+          q1: qi.q1,
+          q2: qi.q2,
+          registers: registers,
+          multiplication: multiplication,
+          diagnostics: diagnostics
+        }) ),
+        diagnostics: diagnostics,
+        inputs: qi
+      }) );
+    }
+    catch (err)
+    {
+      // an expression that can not be evaluated remains on the expression line to be corrected
+      if (!(err instanceof QExpressionError)) {
+        throw err;
+      }
+    }
+  }
+}
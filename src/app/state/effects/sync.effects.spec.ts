@@ -0,0 +1,118 @@
+import { Action, combineReducers, ActionReducer } from '@ngrx/store';
+import { Actions } from '@ngrx/effects';
+
+import { Subject         } from 'rxjs/Subject';
+import { BehaviorSubject } from 'rxjs/BehaviorSubject';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { SyncEffects } from './sync.effects';
+import { CalcState   } from '../definitions/CalcState';
+import { QInputs     } from '../definitions/QInputs';
+import { QRecords    } from '../../libs/QRecords';
+import { TabMessage  } from '../../services/TabChannel';
+
+import { quaternionCalcReducers, quaternionMetaReducers } from '../definitions/CalcState';
+
+describe('SyncEffects', () => {
+  let reducer: ActionReducer<CalcState>;
+  let state: CalcState;
+  let store: BehaviorSubject<CalcState>;
+  let actions: Subject<Action>;
+  let messages: Subject<TabMessage>;
+  let posted: Array<TabMessage>;
+  let received: Array<Action>;
+
+  // reduce an action, then deliver it to the effects as the store does
+  const dispatch = (action: Action) =>
+  {
+    state = reducer(state, action);
+    store.next(state);
+    actions.next(action);
+  };
+
+  const message = (slice: string, value: any): TabMessage => ({tab: 'other', sent: 0, slice: slice, value: value});
+
+  beforeEach(() => {
+    reducer = quaternionMetaReducers
+      .reduceRight( (r: ActionReducer<CalcState>, meta: any) => meta(r), combineReducers(<any> quaternionCalcReducers) );
+
+    state    = reducer(undefined, {type: '@ngrx/store/init'});
+    store    = new BehaviorSubject<CalcState>(state);
+    actions  = new Subject<Action>();
+    messages = new Subject<TabMessage>();
+    posted   = [];
+    received = [];
+
+    const channel: any = {
+      messages: messages,
+      post: (slice: string, value: any) => posted.push({tab: 'this', sent: 0, slice: slice, value: value})
+    };
+
+    const effects = new SyncEffects(new Actions(actions), channel, <any> store);
+
+    effects.publish$.subscribe();
+    effects.receive$.subscribe( (action: Action) => received.push(action) );
+
+    dispatch({type: '@ngrx/effects/init'});
+  });
+
+  it('should post a shared slice only when it changes', () => {
+    dispatch( new CalcActions.ToQ1(QRecords.create(0, 1, 0, 0)) );
+    expect(posted.length).toBe(0);
+
+    dispatch( new CalcActions.ToMemory({register: '', id: 'Q_1', memory: QRecords.create(0, 1, 0, 0)}) );
+    expect(posted.map( (m: TabMessage) => m.slice )).toEqual(['memory']);
+    expect(posted[0].value).toBe(state.memory);
+  });
+
+  it('should post a slice when it is selected for sharing', () => {
+    dispatch( new CalcActions.SetSync({memory: true, inputs: true}) );
+    expect(posted.map( (m: TabMessage) => m.slice )).toEqual(['inputs']);
+
+    dispatch( new CalcActions.SetSync({memory: false, inputs: true}) );
+    dispatch( new CalcActions.ClearMemory() );
+    dispatch( new CalcActions.ToQ2(QRecords.create(0, 0, 1, 0)) );
+    expect(posted.map( (m: TabMessage) => m.slice )).toEqual(['inputs', 'inputs']);
+  });
+
+  it('should apply a shared slice from another tab without posting it back', () => {
+    messages.next( message('memory', {action: CalcActions.TO_MEMORY, id: 'Q_2', register: 'M1',
+                                      registers: {M1: {w: 0, i: 0, j: 0, k: 1}}}) );
+
+    expect(received.map( (a: Action) => a.type )).toEqual([CalcActions.SYNC_MEMORY]);
+
+    dispatch(received[0]);
+    expect(state.memory.registers['M1']).toEqual({w: 0, i: 0, j: 0, k: 1});
+    expect(state.memory.action).toBe(CalcActions.SYNC_MEMORY);
+    expect(posted.length).toBe(0);
+  });
+
+  it('should ignore slices this tab does not share and values that are not a slice', () => {
+    const inputs: QInputs = QRecords.inputs();
+
+    messages.next( message('inputs', inputs) );
+    messages.next( message('memory', {registers: {M1: 'q1'}}) );
+    messages.next( message('settings', state.settings) );
+    expect(received.length).toBe(0);
+
+    dispatch( new CalcActions.SetSync({memory: true, inputs: true}) );
+    messages.next( message('inputs', inputs) );
+    expect(received.map( (a: Action) => a.type )).toEqual([CalcActions.SYNC_INPUTS]);
+  });
+
+  it('should recompute shared inputs in the multiplication convention of this tab', () => {
+    dispatch( new CalcActions.SetSync({memory: false, inputs: true}) );
+    dispatch( new CalcActions.SetMultiplication('jpl') );
+
+    // i * j computed by another tab in the hamilton convention
+    messages.next( message('inputs', Object.assign(QRecords.inputs(), {op: CalcActions.Q_MULTIPLY,
+      q1: QRecords.create(0, 1, 0, 0), q2: QRecords.create(0, 0, 1, 0), result: QRecords.create(0, 0, 0, 1)})) );
+
+    dispatch(received[0]);
+    expect(state.inputs.action).toBe(CalcActions.SYNC_INPUTS);
+    expect(state.inputs.q1).toEqual({w: 0, i: 1, j: 0, k: 0});
+    expect(state.inputs.result).toEqual({w: 0, i: 0, j: 0, k: -1});
+    expect(state.settings.multiplication).toBe('jpl');
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+
+/**
+ * Effects that share the memory and (optionally) inputs slices of the store with other tabs of the calculator.  Each
+ * slice is shared only if it is selected in the settings of this tab; a slice that changes is posted to other tabs,
+ * and a slice received from another tab is applied with SYNC_MEMORY or SYNC_INPUTS.  Those actions are never posted
+ * back, so there is no echo between tabs.  A newly opened tab keeps its own state until a shared slice changes in any
+ * tab, and a slice is posted when it is newly selected for sharing.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+// platform imports
+import { Injectable } from '@angular/core';
+
+import { Action, Store   } from '@ngrx/store';
+import { Actions, Effect } from '@ngrx/effects';
+
+// rxjs
+import { Observable } from 'rxjs/Observable';
+import 'rxjs/add/operator/do';
+import 'rxjs/add/operator/map';
+import 'rxjs/add/operator/filter';
+import 'rxjs/add/operator/withLatestFrom';
+
+// tab channel
+import { TabChannel, TabMessage } from '../../services/TabChannel';
+
+// calculator state
+import * as CalcActions from '../actions/CalcActions';
+
+import { CalcState } from '../definitions/CalcState';
+import { CalcSync  } from '../definitions/CalcSettings';
+import { QRecords  } from '../../libs/QRecords';
+
+import { selectMultiplication } from '../selectors/calc.selectors';
+
+@Injectable()
+export class SyncEffects
+{
+  // slices of the store that may be shared
+  public static readonly SLICES: Array<string> = ['memory', 'inputs'];
+
+  // actions that apply a slice received from another tab
+  protected static RECEIVED: Array<string> = [CalcActions.SYNC_MEMORY, CalcActions.SYNC_INPUTS];
+
+  protected _last: Object      = {};    // most recently observed value of each slice
+  protected _shared: CalcSync  = null;  // most recently observed selection of shared slices
+
+  /**
+   * Post each shared slice that changed to other tabs
+   */
+  @Effect({dispatch: false})
+  public publish$: Observable<[Action, CalcState]> = this._actions
+    .withLatestFrom(this._store)
+    .do( ([action, state]: [Action, CalcState]) => this.__publish(action, state) );
+
+  /**
+   * Apply a slice received from another tab, if that slice is shared by this tab
+   */
+  @Effect()
+  public receive$: Observable<Action> = this._channel.messages
+    .withLatestFrom(this._store)
+    .filter( ([message, state]: [TabMessage, CalcState]) => SyncEffects.__isShared(message, state) )
+    .map( ([message, state]: [TabMessage, CalcState]) => message.slice == 'memory'
+      ? new CalcActions.SyncMemory(message.value)
+      : new CalcActions.SyncInputs(message.value, selectMultiplication(state))
+    );
+
+  constructor(protected _actions: Actions, protected _channel: TabChannel, protected _store: Store<CalcState>)
+  {
+    // empty
+  }
+
+  // post the slices that changed (or are newly shared) after an action
+  protected __publish(action: Action, state: CalcState): void
+  {
+    if (!state || !state.settings || !state.settings.sync) {
+      return;
+    }
+
+    const sync: CalcSync    = state.settings.sync;
+    const shared: CalcSync  = this._shared;
+    const received: boolean = SyncEffects.RECEIVED.indexOf(action.type) != -1;
+
+    this._shared = sync;
+
+    SyncEffects.SLICES.forEach( (slice: string) =>
+    {
+      const last: any = this._last[slice];
+
+      this._last[slice] = state[slice];
+
+      // the first state observed is this tab's own, which does not replace the state of other tabs
+      if (last === undefined || shared == null || !sync[slice] || received) {
+        return;
+      }
+
+      if (state[slice] !== last || !shared[slice]) {
+        this._channel.post(slice, state[slice]);
+      }
+    });
+  }
+
+  // is a message a slice that is shared by this tab?
+  protected static __isShared(message: TabMessage, state: CalcState): boolean
+  {
+    const value: any = message.value;
+
+    if (!state || !state.settings || !state.settings.sync || !state.settings.sync[message.slice] ||
+        value == null || typeof value !== 'object') {
+      return false;
+    }
+
+    switch (message.slice)
+    {
+      case 'memory':
+        return value.registers != null && typeof value.registers === 'object' &&
+               Object.keys(value.registers).every( (name: string) => QRecords.isRecord(value.registers[name]) );
+
+      case 'inputs':
+        return QRecords.isRecord(value.q1) && QRecords.isRecord(value.q2) && QRecords.isRecord(value.result) &&
+               typeof value.scalar === 'number' && typeof value.t === 'number' && typeof value.op === 'string' &&
+               typeof value.expression === 'string';
+
+      default:
+        return false;
+    }
+  }
+}
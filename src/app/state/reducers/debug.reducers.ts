@@ -0,0 +1,56 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Debug meta-reducer for the quaternion calculator.  A DebugJump restores a state recorded in the debug session that
+ * backs the debug drawer; actions are recorded by DebugEffects, since a reducer may be run again without a dispatch,
+ * i.e. when the Redux DevTools recompute the state.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { Action, ActionReducer, MetaReducer } from '@ngrx/store';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { CalcState    } from "../definitions/CalcState";
+import { DebugSession } from "../../services/DebugSession";
+
+/**
+ * Create a meta-reducer that restores a state recorded in the supplied debug session on DebugJump
+ *
+ * @param {DebugSession} session Debug session
+ *
+ * @returns {MetaReducer<CalcState>}
+ */
+export function restorer(session: DebugSession): MetaReducer<CalcState>
+{
+  return function(reducer: ActionReducer<CalcState>): ActionReducer<CalcState>
+  {
+    return function(state: CalcState, action: Action): CalcState
+    {
+      if (action.type == CalcActions.DEBUG_JUMP)
+      {
+        // the jump passes through the remaining reducers, which leave the recorded state alone
+        return reducer(session.stateAt((<CalcActions.DebugJump> action).payload), action);
+      }
+
+      return reducer(state, action);
+    };
+  };
+}
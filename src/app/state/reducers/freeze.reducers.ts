@@ -0,0 +1,62 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Freeze meta-reducer for the quaternion calculator.  In development, every new state is checked to be plain,
+ * JSON-serializable data and is then deep-frozen, so that a class instance placed in the store or a modification of
+ * prior state (by a reducer or a subscriber) fails immediately instead of breaking undo, redo, or persistence later.
+ * Production builds skip both.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { Action, ActionReducer } from '@ngrx/store';
+
+import { CalcState } from "../definitions/CalcState";
+import { QRecords  } from "../../libs/QRecords";
+
+import { environment } from '../../../environments/environment';
+
+/**
+ * Meta-reducer that checks and freezes each new state in development
+ *
+ * @param {ActionReducer<CalcState>} reducer Root reducer
+ *
+ * @returns {ActionReducer<CalcState>} Reducer whose states are frozen
+ *
+ * @throws {Error} If a new state is not plain, JSON-serializable data (development only)
+ */
+export function frozen(reducer: ActionReducer<CalcState>): ActionReducer<CalcState>
+{
+  return function(state: CalcState, action: Action): CalcState
+  {
+    const next: CalcState = reducer(state, action);
+
+    if (environment.production || next === state) {
+      return next;
+    }
+
+    const problem: string = QRecords.unserializable(next);
+
+    if (problem != '') {
+      throw new Error('state after ' + action.type + ' is not serializable; ' + problem);
+    }
+
+    return QRecords.freeze(next);
+  };
+}
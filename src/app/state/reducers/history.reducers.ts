@@ -0,0 +1,192 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Undo/redo history for the quaternion calculator.  The meta-reducer wraps the root reducer, records a snapshot of the
+ * inputs and memory slices before each change, and restores snapshots on undo, redo, or jump.  Consecutive actions of
+ * the same type that only move the interpolation parameter (or otherwise leave the inputs and memory unchanged) are
+ * coalesced into a single step, so dragging a slider does not flood the history.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { Action, ActionReducer } from '@ngrx/store';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { QInputs   } from "../definitions/QInputs";
+import { QMemory   } from "../definitions/QMemory";
+import { CalcState } from "../definitions/CalcState";
+
+import { CalcHistory, CalcSnapshot } from "../definitions/CalcHistory";
+
+import { QRecords } from "../../libs/QRecords";
+
+import { environment } from '../../../environments/environment';
+
+/**
+ * Reduce the history section of the global store (the meta-reducer manages the past and future)
+ *
+ * @param {CalcHistory} state Prior state
+ *
+ * @param {Action} action History action
+ *
+ * @returns {CalcHistory} Updated history slice of the store
+ */
+export function historyReducer(state: CalcHistory, action: Action): CalcHistory
+{
+  const history: CalcHistory = state ? state : {past: [], future: [], depth: environment.historyDepth};
+
+  switch (action.type)
+  {
+    case CalcActions.HISTORY_DEPTH:
+      const depth: number = Math.max(0, Math.round( (<CalcActions.HistoryDepth> action).payload ));
+
+      return {
+        past: history.past.slice( Math.max(0, history.past.length - depth) ),
+        future: history.future,
+        depth: depth
+      };
+
+    case CalcActions.INIT:
+      // a newly loaded model starts a new history
+      return {past: [], future: [], depth: history.depth};
+
+    default:
+      return history;
+  }
+}
+
+/**
+ * Meta-reducer that adds undo/redo to the inputs and memory slices of the store
+ *
+ * @param {ActionReducer<CalcState>} reducer Root reducer
+ *
+ * @returns {ActionReducer<CalcState>} Reducer with undo/redo history
+ */
+export function undoable(reducer: ActionReducer<CalcState>): ActionReducer<CalcState>
+{
+  return function(state: CalcState, action: Action): CalcState
+  {
+    if (!state) {
+      return reducer(state, action);
+    }
+
+    const history: CalcHistory = state.history;
+
+    switch (action.type)
+    {
+      case CalcActions.UNDO:
+        if (history.past.length == 0) {
+          return state;
+        }
+
+        return __restore(state, history.past.length - 1, action.type);
+
+      case CalcActions.REDO:
+        if (history.future.length == 0) {
+          return state;
+        }
+
+        return __restore(state, history.past.length + 1, action.type);
+
+      case CalcActions.JUMP_TO:
+        const index: number = (<CalcActions.JumpTo> action).payload;
+
+        if (index < 0 || index > history.past.length + history.future.length || index == history.past.length) {
+          return state;
+        }
+
+        return __restore(state, index, action.type);
+
+      default:
+        const next: CalcState = reducer(state, action);
+
+        if (next.history.depth == 0 || !__isNewStep(state, next)) {
+          return next;
+        }
+
+        const past: Array<CalcSnapshot> = next.history.past.concat( [{inputs: state.inputs, memory: state.memory}] );
+
+        // other slices are unaffected by history
+        return Object.assign({}, next, {
+          history: {
+            past: past.slice( Math.max(0, past.length - next.history.depth) ),
+            future: [],
+            depth: next.history.depth
+          }
+        });
+    }
+  }
+}
+
+// restore the snapshot at the specified index into the timeline of past, present, and future
+function __restore(state: CalcState, index: number, type: string): CalcState
+{
+  const history: CalcHistory = state.history;
+
+  const timeline: Array<CalcSnapshot> = history.past.concat( [{inputs: state.inputs, memory: state.memory}], history.future );
+  const snapshot: CalcSnapshot        = timeline[index];
+
+  // tag the restored slices with the history action so that subscribers know to refresh
+  const inputs: QInputs = Object.assign({}, snapshot.inputs, {action: type});
+
+  const memory: QMemory = snapshot.memory
+                        ? {action: type, id: '', register: '', registers: snapshot.memory.registers}
+                        : snapshot.memory;
+
+  return Object.assign({}, state, {
+    inputs: inputs,
+    memory: memory,
+    history: {
+      past: timeline.slice(0, index),
+      future: timeline.slice(index + 1),
+      depth: history.depth
+    }
+  });
+}
+
+// does the transition from prior to next state warrant a new step in history?
+function __isNewStep(prior: CalcState, next: CalcState): boolean
+{
+  if (next.inputs === prior.inputs && next.memory === prior.memory) {
+    return false;
+  }
+
+  if (next.inputs.action == CalcActions.INIT || next.inputs.action == CalcActions.SET_MULTIPLICATION) {
+    return false;
+  }
+
+  const a: QInputs = prior.inputs;
+  const b: QInputs = next.inputs;
+
+  if (!QRecords.equals(a.q1, b.q1) || !QRecords.equals(a.q2, b.q2) || a.scalar != b.scalar) {
+    return true;
+  }
+
+  // the memory reducer only creates new registers when their contents change
+  const m: QMemory = prior.memory;
+  const n: QMemory = next.memory;
+
+  if ((m ? m.registers : null) !== (n ? n.registers : null)) {
+    return true;
+  }
+
+  // a different operation (or expression) on the same inputs is a new step
+  return a.action != b.action || a.expression != b.expression;
+}
@@ -0,0 +1,74 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Reducer for the persistence section of the global store.  Requests are performed by the model effects; this slice
+ * only records their progress.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { QModelAction } from '../actions/CalcActions';
+
+import { CalcPersistence } from "../definitions/CalcPersistence";
+
+/**
+ * Reduce the persistence section of the global store
+ *
+ * @param {CalcPersistence} state Prior state
+ *
+ * @param {QModelAction} action Model action
+ *
+ * @returns {CalcPersistence} Updated persistence slice of the store
+ */
+export function persistenceReducer(state: CalcPersistence, action: QModelAction): CalcPersistence
+{
+  const persistence: CalcPersistence = state ? state : {
+    action: CalcActions.Q_NONE,
+    id: '',
+    loading: false,
+    saving: false,
+    error: ''
+  };
+
+  switch (action.type)
+  {
+    case CalcActions.LOAD_MODEL:
+      return Object.assign({}, persistence, {action: action.type, id: action.payload, loading: true, error: ''});
+
+    case CalcActions.LOAD_MODEL_SUCCESS:
+      return Object.assign({}, persistence, {action: action.type, loading: false, error: ''});
+
+    case CalcActions.LOAD_MODEL_FAILURE:
+      return Object.assign({}, persistence, {action: action.type, loading: false, error: action.payload});
+
+    case CalcActions.SAVE_MODEL:
+      return Object.assign({}, persistence, {action: action.type, id: action.payload, saving: true, error: ''});
+
+    case CalcActions.SAVE_MODEL_SUCCESS:
+      return Object.assign({}, persistence, {action: action.type, saving: false, error: ''});
+
+    case CalcActions.SAVE_MODEL_FAILURE:
+      return Object.assign({}, persistence, {action: action.type, saving: false, error: action.payload});
+
+    default:
+      return persistence;
+  }
+}
@@ -24,27 +24,13 @@
 
 import * as CalcActions from '../actions/CalcActions';
 
-import { Q       } from "../definitions/Q";
-import { QInputs } from "../definitions/QInputs";
-import { QCalc   } from "../../libs/QCalc";
-import { QMemory } from "../definitions/QMemory";
+import { QInputAction, QMemoryAction } from '../actions/CalcActions';
 
-export interface QMemoryAction
-{
-  type: string;
-
-  payload: QMemory;
-}
-
-/**
- * Model for input actions
- */
-export interface QInputAction
-{
-  type: string
-
-  payload: QInputs;
-}
+import { QInputs      } from "../definitions/QInputs";
+import { QRecord      } from "../definitions/QRecord";
+import { QCalc, QResult } from "../../libs/QCalc";
+import { QRecords       } from "../../libs/QRecords";
+import { QMemory, QRegisters } from "../definitions/QMemory";
 
 /**
  * Reduce QInputs section of global store
@@ -57,100 +43,361 @@ export interface QInputAction
  */
 export function inputReducer(state: QInputs, action: QInputAction): QInputs
 {
-  const qi: QInputs = new QInputs();
-
-  // priority is payload, then state
-  if (action.payload)
-  {
-    qi.q1 = action.payload.q1;
-    qi.q2 = action.payload.q2;
-    qi.op = action.payload.op;
-  }
-  else
-  {
-    qi.q1 = state ? state.q1.clone() : new Q(1, 0, 0, 0);
-    qi.q2 = state ? state.q2.clone() : new Q(1, 0, 0, 0);
-    qi.op = state ? state.op : CalcActions.Q_NONE;
-  }
-
-  qi.action = action.type;
+  let qi: QInputs;
 
   switch(action.type)
   {
     case CalcActions.Q_ADD:
-      qi.result = QCalc.add(qi.q1, qi.q2);
+    case CalcActions.Q_SUBTRACT:
+    case CalcActions.Q_SLERP:
+    case CalcActions.Q_NLERP:
+      return __compute( __toOperation(state, action.payload, action.type) );
+
+    case CalcActions.Q_MULTIPLY:
+    case CalcActions.Q_DIVIDE:
+      return __compute( __toOperation(state, action.payload, action.type), action.multiplication );
+
+    case CalcActions.Q_CONJUGATE:
+    case CalcActions.Q_INVERSE:
+    case CalcActions.Q_NORMALIZE:
+    case CalcActions.Q_NORM:
+    case CalcActions.Q_ADD_SCALAR:
+    case CalcActions.Q_SUBTRACT_SCALAR:
+    case CalcActions.Q_SCALE:
+    case CalcActions.Q_DIVIDE_BY_SCALAR:
+    case CalcActions.Q_SCALAR_DIVIDE:
+    case CalcActions.Q_EXP:
+    case CalcActions.Q_LOG:
+    case CalcActions.Q_SQRT:
+    case CalcActions.Q_POW:
+      return __compute( __toOperation(state, action.payload.inputs, action.type, action.payload.id) );
+
+    case CalcActions.Q_EXPRESSION:
+      qi            = __toOperation(state, action.payload.inputs, action.type);
+      qi.expression = action.payload.expression;
+      qi.result     = QRecords.from(action.payload.result);
+
+      qi.diagnostics = action.payload.diagnostics ? Object.assign({}, action.payload.diagnostics) : qi.diagnostics;
       return qi;
 
-    case CalcActions.Q_SUBTRACT:
-      qi.result = QCalc.subtract(qi.q1, qi.q2);
+    case CalcActions.TO_Q1:
+      qi        = __toInputs(state, undefined, action.type);
+      qi.q1     = QRecords.from(action.payload);
+      qi.result = state ? state.result : qi.result;
       return qi;
 
-    case CalcActions.Q_MULTIPLY:
-      qi.result = QCalc.multiply(qi.q1, qi.q2);
+    case CalcActions.TO_Q2:
+      qi        = __toInputs(state, undefined, action.type);
+      qi.q2     = QRecords.from(action.payload);
+      qi.result = state ? state.result : qi.result;
       return qi;
 
-    case CalcActions.Q_DIVIDE:
-      qi.result = QCalc.divide(qi.q1, qi.q2);
+    case CalcActions.TO_SCALAR:
+      qi        = __toInputs(state, undefined, action.type);
+      qi.scalar = action.payload;
+      qi.result = state ? state.result : qi.result;
       return qi;
 
+    case CalcActions.RESTORE_OPERANDS:
+      qi        = __toInputs(state, undefined, action.type);
+      qi.q1     = QRecords.from(action.payload.q1);
+      qi.q2     = QRecords.from(action.payload.q2);
+      qi.scalar = action.payload.scalar;
+      qi.t      = action.payload.t;
+      qi.op     = action.payload.op;
+      qi.result = QRecords.from(action.payload.result);
+
+      qi.operand     = action.payload.operand;
+      qi.expression  = action.payload.expression;
+      qi.diagnostics = QRecords.diagnostics();
+
+      // the entry may have been computed in another multiplication convention (an expression is not re-evaluated)
+      return __compute(qi, action.multiplication);
+
+    case CalcActions.SYNC_INPUTS:
+      qi             = __toInputs(state, action.payload, action.type);
+      qi.result      = QRecords.from(action.payload.result);
+      qi.diagnostics = action.payload.diagnostics ? Object.assign({}, action.payload.diagnostics) : qi.diagnostics;
+
+      // the other tab may be in another multiplication convention (an expression is taken as evaluated there)
+      return __compute(qi, action.multiplication);
+
+    case CalcActions.SET_MULTIPLICATION:
+      qi        = __toInputs(state, undefined, action.type);
+      qi.result = state ? state.result : qi.result;
+
+      // a product or quotient is recomputed in the new convention
+      return qi.op == CalcActions.Q_MULTIPLY || qi.op == CalcActions.Q_DIVIDE ? __compute(qi, action.payload) : qi;
+
     case CalcActions.Q_CLEAR:
+      qi        = QRecords.inputs();
+      qi.action = action.type;
       qi.op     = CalcActions.Q_NONE;
-      qi.q1     = new Q(1, 0, 0, 0);
-      qi.q2     = new Q(1, 0, 0, 0);
-      qi.result = new Q(1, 0, 0, 0);
+      qi.q1     = QRecords.create(1, 0, 0, 0);
+      qi.q2     = QRecords.create(1, 0, 0, 0);
+      qi.result = QRecords.create(1, 0, 0, 0);
       return qi;
 
     case CalcActions.INIT:
-      let q: QInputs = action.payload.clone();
-      q.action = action.type;
-
-      // is there an operation to be performed on init?
-      switch (q.op)
-      {
-        case CalcActions.Q_ADD:
-          q.result = QCalc.add(q.q1, q.q2);
-        break;
-
-        case CalcActions.Q_SUBTRACT:
-          q.result = QCalc.subtract(q.q1, q.q2);
-        break;
-
-        case CalcActions.Q_MULTIPLY:
-          q.result = QCalc.multiply(q.q1, q.q2);
-        break;
-
-        case CalcActions.Q_DIVIDE:
-          q.result = QCalc.divide(q.q1, q.q2);
-        break;
-      }
-
-      return q;
+      // the operation of a loaded model is performed on init, except for an expression, which may refer to memory
+      return __compute( __copy(action.payload, action.type), action.multiplication );
 
     default:
-      return qi;
+      // every action passes through every reducer, so anything not handled above leaves this slice alone
+      return state ? state : __toInputs(state, undefined, CalcActions.Q_NONE);
   }
 }
 
 /**
  * Reduce QMemory section of global store
  *
- * @param {QInputs} state Prior state
+ * @param {QMemory} state Prior state
  *
- * @param {QInputAction} action QInput action
+ * @param {QMemoryAction} action QMemory action
  *
- * @returns {QInputs} Updated QMemory slice of the store
+ * @returns {QMemory} Updated QMemory slice of the store
  */
 export function memoryReducer(state: QMemory, action: QMemoryAction): QMemory
 {
+  const memory: QMemory = state ? state : {action: CalcActions.Q_NONE, id: '', register: '', registers: {}};
+
+  let registers: QRegisters;
+  let name: string;
+
   switch(action.type)
   {
     case CalcActions.TO_MEMORY:
-      return {action: action.type, id: action.payload.id, memory: action.payload.memory};
+      name            = action.payload.register != '' ? action.payload.register : __nextRegister(memory.registers);
+      registers       = Object.assign({}, memory.registers);
+      registers[name] = QRecords.from(action.payload.memory);
+
+      return {action: action.type, id: action.payload.id, register: name, registers: registers};
 
     case CalcActions.FROM_MEMORY:
-      return {action: CalcActions.FROM_MEMORY, id: state.id, memory: state.memory};
+      if (!memory.registers.hasOwnProperty(action.payload.register)) {
+        return memory;
+      }
+
+      return {action: action.type, id: action.payload.id, register: action.payload.register, registers: memory.registers};
+
+    case CalcActions.RENAME_MEMORY:
+      name = action.payload.name.trim();
+
+      if (name == '' || !memory.registers.hasOwnProperty(action.payload.register) || memory.registers.hasOwnProperty(name)) {
+        return memory;
+      }
+
+      // rebuild the registers so that the renamed register keeps its place in the list
+      registers = {};
+      Object.keys(memory.registers).forEach( (key: string) => {
+        registers[key == action.payload.register ? name : key] = memory.registers[key];
+      });
+
+      return {action: action.type, id: '', register: name, registers: registers};
+
+    case CalcActions.DELETE_MEMORY:
+      if (!memory.registers.hasOwnProperty(action.payload)) {
+        return memory;
+      }
+
+      registers = Object.assign({}, memory.registers);
+      delete registers[action.payload];
+
+      return {action: action.type, id: '', register: action.payload, registers: registers};
+
+    case CalcActions.CLEAR_MEMORY:
+      return {action: action.type, id: '', register: '', registers: {}};
+
+    case CalcActions.SYNC_MEMORY:
+      // registers from another tab are copied, so that the store holds only plain records
+      registers = {};
+      Object.keys(action.payload.registers).forEach( (key: string) => {
+        registers[key] = QRecords.from(action.payload.registers[key]);
+      });
+
+      return {action: action.type, id: '', register: '', registers: registers};
 
     default:
-      return state;
+      return memory;
+  }
+}
+
+// copy inputs from an action payload, so that the store holds only plain records
+function __copy(payload: QInputs, type: string): QInputs
+{
+  return Object.assign({}, payload, {
+    q1: QRecords.from(payload.q1),
+    q2: QRecords.from(payload.q2),
+    result: QRecords.from(payload.result),
+    operand: typeof payload.operand === 'string' ? payload.operand : '',
+    diagnostics: payload.diagnostics ? Object.assign({}, payload.diagnostics) : QRecords.diagnostics(),
+    action: type
+  });
+}
+
+// create a new inputs slice from an action payload (priority) or the prior state; records of the prior state are
+// shared, since they are never modified
+function __toInputs(state: QInputs, payload: QInputs, type: string): QInputs
+{
+  const qi: QInputs = QRecords.inputs();
+
+  if (payload)
+  {
+    qi.q1     = QRecords.from(payload.q1);
+    qi.q2     = QRecords.from(payload.q2);
+    qi.scalar = payload.scalar;
+    qi.t      = payload.t;
+    qi.op     = payload.op;
+
+    qi.operand    = typeof payload.operand === 'string' ? payload.operand : '';
+    qi.expression = payload.expression;
+  }
+  else
+  {
+    qi.q1     = state ? state.q1 : QRecords.create(1, 0, 0, 0);
+    qi.q2     = state ? state.q2 : QRecords.create(1, 0, 0, 0);
+    qi.scalar = state ? state.scalar : 1;
+    qi.t      = state ? state.t : 0.5;
+    qi.op     = state ? state.op : CalcActions.Q_NONE;
+
+    qi.operand     = state ? state.operand : '';
+    qi.expression  = state ? state.expression : '';
+    qi.diagnostics = state ? state.diagnostics : qi.diagnostics;
+  }
+
+  qi.action = type;
+
+  return qi;
+}
+
+// inputs for an operation, which becomes the current operation of the calculator; a unary or scalar operation is
+// applied to the identified operand (q1 unless q2 is identified)
+function __toOperation(state: QInputs, payload: QInputs, type: string, id?: string): QInputs
+{
+  const qi: QInputs = __toInputs(state, payload, type);
+  qi.op             = type;
+  qi.operand        = id === undefined ? '' : (id == 'q2' ? 'q2' : 'q1');
+  qi.diagnostics    = QRecords.diagnostics();
+
+  return qi;
+}
+
+// compute the result of the current operation of the inputs, with a product or quotient in the supplied multiplication
+// convention; an expression is evaluated outside the store, so the result of an expression (or of no operation) is
+// left unchanged
+function __compute(qi: QInputs, multiplication: string = 'hamilton'): QInputs
+{
+  if (qi.op == CalcActions.Q_NONE || qi.op == CalcActions.Q_EXPRESSION) {
+    return qi;
   }
+
+  const q: QRecord = __operand(qi, qi.operand);
+  qi.diagnostics   = QRecords.diagnostics();
+
+  switch (qi.op)
+  {
+    case CalcActions.Q_ADD:
+      qi.result = QRecords.from(QCalc.add(qi.q1, qi.q2));
+    break;
+
+    case CalcActions.Q_SUBTRACT:
+      qi.result = QRecords.from(QCalc.subtract(qi.q1, qi.q2));
+    break;
+
+    case CalcActions.Q_MULTIPLY:
+      qi.result = QRecords.from(QCalc.multiply(qi.q1, qi.q2, multiplication));
+    break;
+
+    case CalcActions.Q_DIVIDE:
+      __toResult(qi, QCalc.divide(qi.q1, qi.q2, multiplication));
+    break;
+
+    case CalcActions.Q_SLERP:
+      qi.result = QRecords.from(QCalc.slerp(qi.q1, qi.q2, qi.t));
+    break;
+
+    case CalcActions.Q_NLERP:
+      qi.result = QRecords.from(QCalc.nlerp(qi.q1, qi.q2, qi.t));
+    break;
+
+    case CalcActions.Q_CONJUGATE:
+      qi.result = QRecords.from(QCalc.conjugate(q));
+    break;
+
+    case CalcActions.Q_INVERSE:
+      __toResult(qi, QCalc.inverse(q));
+    break;
+
+    case CalcActions.Q_NORMALIZE:
+      qi.result = QRecords.from(QCalc.normalize(q));
+    break;
+
+    case CalcActions.Q_NORM:
+      qi.result = QRecords.create(QCalc.norm(q), 0, 0, 0);
+    break;
+
+    case CalcActions.Q_ADD_SCALAR:
+      qi.result = QRecords.from(QCalc.addScalar(q, qi.scalar));
+    break;
+
+    case CalcActions.Q_SUBTRACT_SCALAR:
+      qi.result = QRecords.from(QCalc.subtractScalar(q, qi.scalar));
+    break;
+
+    case CalcActions.Q_SCALE:
+      qi.result = QRecords.from(QCalc.multiplyByScalar(q, qi.scalar));
+    break;
+
+    case CalcActions.Q_DIVIDE_BY_SCALAR:
+      __toResult(qi, QCalc.divideByScalar(q, qi.scalar));
+    break;
+
+    case CalcActions.Q_SCALAR_DIVIDE:
+      __toResult(qi, QCalc.divideScalarBy(qi.scalar, q));
+    break;
+
+    case CalcActions.Q_EXP:
+      __toResult(qi, QCalc.exp(q));
+    break;
+
+    case CalcActions.Q_LOG:
+      __toResult(qi, QCalc.log(q));
+    break;
+
+    case CalcActions.Q_SQRT:
+      __toResult(qi, QCalc.sqrt(q));
+    break;
+
+    case CalcActions.Q_POW:
+      __toResult(qi, QCalc.pow(q, qi.scalar));
+    break;
+  }
+
+  return qi;
+}
+
+// assign the result of a division, inversion, or transcendental function and its diagnostics
+function __toResult(qi: QInputs, result: QResult): QInputs
+{
+  qi.result      = QRecords.from(result.q);
+  qi.diagnostics = result.diagnostics;
+
+  return qi;
+}
+
+// select the operand of a unary operation
+function __operand(qi: QInputs, id: string): QRecord
+{
+  return id == 'q2' ? qi.q2 : qi.q1;
+}
+
+// first unused default register name, M1, M2, ...
+function __nextRegister(registers: QRegisters): string
+{
+  let n: number = 1;
+  while (registers.hasOwnProperty('M' + n)) {
+    n++;
+  }
+
+  return 'M' + n;
 }
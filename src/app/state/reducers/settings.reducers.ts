@@ -0,0 +1,106 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Reducer for the settings section of the global store
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { QSettingsAction } from '../actions/CalcActions';
+
+import { CalcSettings, CalcDisplay, CalcSync } from "../definitions/CalcSettings";
+import { QCalc        } from "../../libs/QCalc";
+import { NumberFormat } from "../../libs/NumberFormat";
+
+/**
+ * Reduce the settings section of the global store
+ *
+ * @param {CalcSettings} state Prior state
+ *
+ * @param {QSettingsAction} action Settings action
+ *
+ * @returns {CalcSettings} Updated settings slice of the store; an unsupported setting leaves the slice unchanged
+ */
+export function settingsReducer(state: CalcSettings, action: QSettingsAction): CalcSettings
+{
+  const settings: CalcSettings = state ? state : {
+    action: CalcActions.Q_NONE,
+    order: 'wxyz',
+    multiplication: 'hamilton',
+    display: NumberFormat.DEFAULTS,
+    sync: {memory: true, inputs: false}
+  };
+
+  switch (action.type)
+  {
+    case CalcActions.SET_ORDER:
+      if (QCalc.COMPONENT_ORDERS.indexOf(action.payload) == -1) {
+        return settings;
+      }
+
+      return Object.assign({}, settings, {action: action.type, order: action.payload});
+
+    case CalcActions.SET_MULTIPLICATION:
+      if (QCalc.MULTIPLICATIONS.indexOf(action.payload) == -1) {
+        return settings;
+      }
+
+      return Object.assign({}, settings, {action: action.type, multiplication: action.payload});
+
+    case CalcActions.SET_DISPLAY:
+      if (!__isDisplay(action.payload)) {
+        return settings;
+      }
+
+      return Object.assign({}, settings, {action: action.type, display: Object.assign({}, action.payload)});
+
+    case CalcActions.SET_SYNC:
+      if (!__isSync(action.payload)) {
+        return settings;
+      }
+
+      return Object.assign({}, settings, {action: action.type, sync: {memory: action.payload.memory, inputs: action.payload.inputs}});
+
+    default:
+      return settings;
+  }
+}
+
+// are display settings complete and in range?
+function __isDisplay(display: CalcDisplay): boolean
+{
+  if (!display) {
+    return false;
+  }
+
+  const d: number = display.decimals;
+
+  return typeof d === 'number' && d == Math.round(d) && d >= 0 && d <= NumberFormat.MAX_DECIMALS &&
+         NumberFormat.NOTATIONS.indexOf(display.notation) != -1 &&
+         typeof display.epsilon === 'number' && display.epsilon >= 0 && isFinite(display.epsilon) &&
+         NumberFormat.SEPARATORS.indexOf(display.separator) != -1;
+}
+
+// is each slice either shared or not?
+function __isSync(sync: CalcSync): boolean
+{
+  return !!sync && typeof sync.memory === 'boolean' && typeof sync.inputs === 'boolean';
+}
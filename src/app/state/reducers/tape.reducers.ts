@@ -0,0 +1,131 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Calculation tape for the quaternion calculator.  The meta-reducer wraps the root reducer and appends an entry to the
+ * tape whenever an operation completes.  An operation that is repeated on the same inputs (i.e. while the interpolation
+ * parameter is dragged) replaces the prior entry, so the tape is not flooded.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { Action, ActionReducer } from '@ngrx/store';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { QOperationAction } from '../actions/CalcActions';
+
+import { QInputs   } from "../definitions/QInputs";
+import { CalcState } from "../definitions/CalcState";
+
+import { CalcTape, TapeEntry } from "../definitions/CalcTape";
+
+import { QRecords } from "../../libs/QRecords";
+
+// maximum number of entries retained on the tape
+export const TAPE_LENGTH: number = 500;
+
+// operations recorded on the tape
+const TAPE_OPERATIONS: Array<string> = [
+  CalcActions.Q_ADD, CalcActions.Q_SUBTRACT, CalcActions.Q_MULTIPLY, CalcActions.Q_DIVIDE, CalcActions.Q_SLERP,
+  CalcActions.Q_NLERP, CalcActions.Q_CONJUGATE, CalcActions.Q_INVERSE, CalcActions.Q_NORMALIZE, CalcActions.Q_NORM,
+  CalcActions.Q_ADD_SCALAR, CalcActions.Q_SUBTRACT_SCALAR, CalcActions.Q_SCALE, CalcActions.Q_DIVIDE_BY_SCALAR,
+  CalcActions.Q_SCALAR_DIVIDE, CalcActions.Q_EXP, CalcActions.Q_LOG, CalcActions.Q_SQRT, CalcActions.Q_POW,
+  CalcActions.Q_EXPRESSION
+];
+
+/**
+ * Reduce the tape section of the global store (the meta-reducer records operations)
+ *
+ * @param {CalcTape} state Prior state
+ *
+ * @param {Action} action Tape action
+ *
+ * @returns {CalcTape} Updated tape slice of the store
+ */
+export function tapeReducer(state: CalcTape, action: Action): CalcTape
+{
+  const tape: CalcTape = state ? state : {action: CalcActions.Q_NONE, entries: [], next: 1};
+
+  switch (action.type)
+  {
+    case CalcActions.CLEAR_TAPE:
+      return {action: action.type, entries: [], next: tape.next};
+
+    default:
+      return tape;
+  }
+}
+
+/**
+ * Meta-reducer that records completed operations on the calculation tape
+ *
+ * @param {ActionReducer<CalcState>} reducer Root reducer
+ *
+ * @returns {ActionReducer<CalcState>} Reducer that records operations
+ */
+export function taped(reducer: ActionReducer<CalcState>): ActionReducer<CalcState>
+{
+  return function(state: CalcState, action: Action): CalcState
+  {
+    const next: CalcState = reducer(state, action);
+
+    if (!next || !next.tape || !__isOperation(action)) {
+      return next;
+    }
+
+    // an operation recorded before operations were stamped (i.e. in an imported debug session) has no time
+    const qi: QInputs      = next.inputs;
+    const tape: CalcTape   = next.tape;
+    const entry: TapeEntry = {
+      id: tape.next,
+      timestamp: typeof action.timestamp === 'number' ? action.timestamp : 0,
+      op: action.type,
+      operand: qi.operand,
+      expression: action.type == CalcActions.Q_EXPRESSION ? qi.expression : '',
+      q1: qi.q1,
+      q2: qi.q2,
+      scalar: qi.scalar,
+      t: qi.t,
+      result: qi.result
+    };
+
+    const last: TapeEntry         = tape.entries.length > 0 ? tape.entries[tape.entries.length-1] : null;
+    let entries: Array<TapeEntry> = __isRepeat(last, entry) ? tape.entries.slice(0, -1) : tape.entries.slice();
+
+    entries.push(entry);
+    entries = entries.slice( Math.max(0, entries.length - TAPE_LENGTH) );
+
+    return Object.assign({}, next, {
+      tape: {action: action.type, entries: entries, next: tape.next + 1}
+    });
+  }
+}
+
+// is the action an operation that is recorded on the tape?
+function __isOperation(action: Action): action is QOperationAction
+{
+  return TAPE_OPERATIONS.indexOf(action.type) != -1;
+}
+
+// is the entry a repeat of the same operation on the same inputs as the last entry?
+function __isRepeat(last: TapeEntry, entry: TapeEntry): boolean
+{
+  return last != null && last.op == entry.op && last.operand == entry.operand && last.scalar == entry.scalar &&
+         last.expression == entry.expression && QRecords.equals(last.q1, entry.q1) && QRecords.equals(last.q2, entry.q2);
+}
@@ -0,0 +1,83 @@
+import * as CalcActions from '../actions/CalcActions';
+
+import { QRecord      } from '../definitions/QRecord';
+import { QInputs      } from '../definitions/QInputs';
+import { QDiagnostics } from '../definitions/QDiagnostics';
+import { QMemory      } from '../definitions/QMemory';
+import { CalcState    } from '../definitions/CalcState';
+import { NumberFormat } from '../../libs/NumberFormat';
+import { QRecords     } from '../../libs/QRecords';
+
+import { selectQ1
+       , selectResult
+       , selectDiagnostics
+       , selectOp
+       , selectRecall
+       , selectResultNorm
+       , selectResultIsUnit
+       , selectResultAngle
+} from './calc.selectors';
+
+function state(result: QRecord, memory?: QMemory, multiplication: string = 'hamilton'): CalcState
+{
+  const inputs: QInputs = QRecords.inputs();
+  inputs.q1             = QRecords.create(1, 2, 3, 4);
+  inputs.result         = result;
+  inputs.op             = CalcActions.Q_MULTIPLY;
+
+  return <CalcState> {
+    inputs: inputs,
+    memory: memory || {action: CalcActions.Q_NONE, id: '', register: '', registers: {}},
+    settings: {action: CalcActions.Q_NONE, order: 'wxyz', multiplication: multiplication, display: NumberFormat.DEFAULTS,
+               sync: {memory: true, inputs: false}}
+  };
+}
+
+describe('Calculator selectors', () => {
+  it('should select the inputs and the operation', () => {
+    const s: CalcState = state(QRecords.create(1, 0, 0, 0));
+
+    expect(selectQ1(s).k).toBe(4);
+    expect(selectOp(s)).toBe(CalcActions.Q_MULTIPLY);
+  });
+
+  it('should return the prior quaternion while its value is unchanged', () => {
+    const first: QRecord = selectResult( state(QRecords.create(0.5, 0.5, 0.5, 0.5)) );
+
+    expect( selectResult(state(QRecords.create(0.5, 0.5, 0.5, 0.5))) ).toBe(first);
+    expect( selectResult(state(QRecords.create(0.5, 0.5, 0.5, -0.5))) ).not.toBe(first);
+  });
+
+  it('should return the prior diagnostics while no flag has changed', () => {
+    const a: CalcState = state(QRecords.create(1, 0, 0, 0));
+    const b: CalcState = state(QRecords.create(1, 0, 0, 0));
+
+    const first: QDiagnostics = selectDiagnostics(a);
+    expect( selectDiagnostics(b) ).toBe(first);
+
+    b.inputs.diagnostics.singular = true;
+    expect( selectDiagnostics(state(QRecords.create(1, 0, 0, 0))) ).toBe(first);
+    expect( selectDiagnostics(b).singular ).toBe(true);
+  });
+
+  it('should derive the norm, unit test and rotation angle of the result', () => {
+    const s: CalcState = state(QRecords.create(Math.cos(0.3), 0, Math.sin(0.3), 0));
+
+    expect(selectResultNorm(s)).toBeCloseTo(1, 12);
+    expect(selectResultIsUnit(s)).toBe(true);
+    expect(selectResultAngle(s)).toBeCloseTo(0.6, 12);
+
+    expect( selectResultIsUnit(state(QRecords.create(2, 0, 0, 0))) ).toBe(false);
+  });
+
+  it('should only select a recall when memory was recalled', () => {
+    const registers = {M1: QRecords.create(0, 1, 0, 0)};
+
+    expect( selectRecall(state(QRecords.create(1, 0, 0, 0), {action: CalcActions.TO_MEMORY, id: 'Q_1', register: 'M1', registers: registers})) )
+      .toBe(null);
+
+    const recall = selectRecall(state(QRecords.create(1, 0, 0, 0), {action: CalcActions.FROM_MEMORY, id: 'Q_2', register: 'M1', registers: registers}));
+    expect(recall.id).toBe('Q_2');
+    expect(recall.memory).toBe(registers.M1);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Copyright 2017 Jim Armstrong (www.algorithmist.net)
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Memoized selectors of the calculator store.  Reducers often create new quaternion records with unchanged components,
+ * so quaternion (and diagnostics) selectors return their prior value while its components are unchanged.  Since store.select() only emits
+ * a changed value, a component that selects with these selectors re-renders only when what it displays has changed,
+ * without inspecting the action that changed the store.
+ *
+ * @author Jim Armstrong (www.algorithmist.net)
+ *
+ * @version 1.0
+ */
+
+import { createSelector, MemoizedSelector } from '@ngrx/store';
+
+import * as CalcActions from '../actions/CalcActions';
+
+import { QRecord      } from '../definitions/QRecord';
+import { QInputs      } from '../definitions/QInputs';
+import { QDiagnostics } from '../definitions/QDiagnostics';
+import { QMemory, QMemoryStore, QRegisters } from '../definitions/QMemory';
+import { CalcState    } from '../definitions/CalcState';
+import { CalcSettings, CalcDisplay } from '../definitions/CalcSettings';
+import { QCalc, QAxisAngle } from '../../libs/QCalc';
+import { QRecords          } from '../../libs/QRecords';
+
+// a quaternion whose norm is within this tolerance of one is a unit quaternion
+const UNIT_TOLERANCE: number = 0.000000001;
+
+// slices
+export const selectInputs   = (state: CalcState): QInputs => state.inputs;
+export const selectMemory   = (state: CalcState): QMemory => state.memory;
+export const selectSettings = (state: CalcState): CalcSettings => state.settings;
+
+/**
+ * Input and result quaternions
+ */
+export const selectQ1: MemoizedSelector<CalcState, QRecord>     = createSelector(selectInputs, __distinctQ( (qi: QInputs) => qi.q1 ));
+export const selectQ2: MemoizedSelector<CalcState, QRecord>     = createSelector(selectInputs, __distinctQ( (qi: QInputs) => qi.q2 ));
+export const selectResult: MemoizedSelector<CalcState, QRecord> = createSelector(selectInputs, __distinctQ( (qi: QInputs) => qi.result ));
+
+/**
+ * Numerical diagnostics of the result
+ */
+export const selectDiagnostics: MemoizedSelector<CalcState, QDiagnostics> =
+  createSelector(selectInputs, __distinctDiagnostics());
+
+/**
+ * Current operation (calculator action) and expression text
+ */
+export const selectOp: MemoizedSelector<CalcState, string>         = createSelector(selectInputs, (qi: QInputs) => qi.op);
+export const selectExpression: MemoizedSelector<CalcState, string> = createSelector(selectInputs, (qi: QInputs) => qi.expression);
+
+/**
+ * Memory registers by name
+ */
+export const selectRegisters: MemoizedSelector<CalcState, QRegisters> =
+  createSelector(selectMemory, (memory: QMemory) => memory.registers);
+
+/**
+ * The register most recently recalled into an input (id is 'Q_1' or 'Q_2'), or null unless the latest change to memory
+ * is a recall; each recall is a new value, so recalling the same register twice emits twice
+ */
+export const selectRecall: MemoizedSelector<CalcState, QMemoryStore> = createSelector(selectMemory, (memory: QMemory) =>
+  memory.action == CalcActions.FROM_MEMORY ? {register: memory.register, id: memory.id, memory: memory.registers[memory.register]} : null
+);
+
+/**
+ * Settings
+ */
+export const selectOrder: MemoizedSelector<CalcState, string> =
+  createSelector(selectSettings, (settings: CalcSettings) => settings.order);
+
+export const selectMultiplication: MemoizedSelector<CalcState, string> =
+  createSelector(selectSettings, (settings: CalcSettings) => settings.multiplication);
+
+export const selectDisplay: MemoizedSelector<CalcState, CalcDisplay> =
+  createSelector(selectSettings, (settings: CalcSettings) => settings.display);
+
+/**
+ * Values derived from the result
+ */
+export const selectResultNorm: MemoizedSelector<CalcState, number> = createSelector(selectResult, (q: QRecord) => QCalc.norm(q));
+
+export const selectResultIsUnit: MemoizedSelector<CalcState, boolean> =
+  createSelector(selectResultNorm, (norm: number) => Math.abs(norm - 1) < UNIT_TOLERANCE);
+
+export const selectResultRotation: MemoizedSelector<CalcState, QAxisAngle> =
+  createSelector(selectResult, selectMultiplication, (q: QRecord, multiplication: string) => QCalc.toAxisAngle(q, multiplication));
+
+export const selectResultAngle: MemoizedSelector<CalcState, number> =
+  createSelector(selectResultRotation, (rotation: QAxisAngle) => rotation.angle);
+
+// project a quaternion from the inputs, returning the prior projection while its components are unchanged
+function __distinctQ(project: (qi: QInputs) => QRecord): (qi: QInputs) => QRecord
+{
+  let last: QRecord = null;
+
+  return (qi: QInputs): QRecord =>
+  {
+    const q: QRecord = project(qi);
+
+    if (!QRecords.equals(q, last)) {
+      last = q;
+    }
+
+    return last;
+  };
+}
+
+// project the diagnostics of the inputs, returning the prior projection while no flag has changed
+function __distinctDiagnostics(): (qi: QInputs) => QDiagnostics
+{
+  let last: QDiagnostics = null;
+
+  return (qi: QInputs): QDiagnostics =>
+  {
+    const d: QDiagnostics = qi.diagnostics;
+
+    if (last == null || d.singular != last.singular || d.nearSingular != last.nearSingular || d.nonFinite != last.nonFinite) {
+      last = d;
+    }
+
+    return last;
+  };
+}
@@ -4,5 +4,17 @@
 // The list of which env maps to which file can be found in `.angular-cli.json`.
 
 export const environment = {
-  production: false
+  production: false,
+
+  // maximum number of undo steps retained by the calculator
+  historyDepth: 50,
+
+  // base url of saved calculator models; a model with id 'x' is read from and posted to {modelUrl}/x.json
+  modelUrl: './assets',
+
+  // url to which log records are posted (empty to disable)
+  logUrl: '',
+
+  // number of recent actions retained by the Redux DevTools and the debug drawer (zero disables both)
+  debugDepth: 100
 };